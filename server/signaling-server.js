@@ -0,0 +1,204 @@
+/**
+ * Minimal WebSocket signaling server for NEXT_PUBLIC_SIGNALING_TRANSPORT=websocket.
+ *
+ * Clients join a call room and relay signaling messages through it. Each room
+ * keeps its history so a participant who joins later (e.g. a callee answering)
+ * still receives the offers and candidates that were addressed to them.
+ *
+ * A join carries the user's Firebase ID token. The server verifies it with
+ * the Admin SDK and checks the user is a participant of the call (and wasn't
+ * removed by the host); the socket then speaks only as that uid.
+ *
+ * Frames (JSON):
+ *   client -> server  { kind: 'join', callId, idToken, after }
+ *                     { kind: 'leave', callId }
+ *                     { kind: 'signal', message }
+ *   server -> client  { kind: 'signal', seq, message }
+ *                     { kind: 'error', callId, reason }
+ *
+ * Needs the same Firebase Admin credentials as the Next.js server
+ * (FIREBASE_SERVICE_ACCOUNT or Application Default Credentials).
+ *
+ * Run with: npm run signaling
+ */
+const { WebSocketServer, WebSocket } = require('ws');
+const { initializeApp, cert, applicationDefault } = require('firebase-admin/app');
+const { getAuth } = require('firebase-admin/auth');
+const { getFirestore } = require('firebase-admin/firestore');
+
+const PORT = Number(process.env.SIGNALING_PORT) || 8787;
+const MAX_HISTORY = 1000;
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+const adminApp = initializeApp({
+  credential: serviceAccount ? cert(JSON.parse(serviceAccount)) : applicationDefault(),
+  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+});
+const adminAuth = getAuth(adminApp);
+const adminDb = getFirestore(adminApp);
+
+// callId -> { seq, history: [{ seq, message }], members: Map<socket, userId> }
+const rooms = new Map();
+
+const isAddressedTo = (message, userId) =>
+  message.fromUserId !== userId &&
+  (message.toUserId === null || message.toUserId === userId);
+
+const deliver = (socket, seq, message) => {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify({ kind: 'signal', seq, message }));
+  }
+};
+
+const reject = (socket, callId, reason) => {
+  console.warn(`Rejecting join for call ${callId}: ${reason}`);
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify({ kind: 'error', callId, reason }));
+  }
+};
+
+// The verified uid, if the token is valid and its owner may signal in the call
+const authorizeJoin = async (socket, callId, idToken) => {
+  if (typeof callId !== 'string' || !callId || typeof idToken !== 'string') {
+    reject(socket, callId, 'Malformed join');
+    return null;
+  }
+
+  let userId;
+  try {
+    userId = (await adminAuth.verifyIdToken(idToken)).uid;
+  } catch (error) {
+    reject(socket, callId, 'Invalid ID token');
+    return null;
+  }
+
+  const snapshot = await adminDb.collection('calls').doc(callId).get();
+  const call = snapshot.exists ? snapshot.data() : null;
+  if (
+    !call ||
+    !(call.participants || []).includes(userId) ||
+    (call.removedParticipants || []).includes(userId)
+  ) {
+    reject(socket, callId, 'Not a participant of this call');
+    return null;
+  }
+
+  return userId;
+};
+
+const leaveRoom = (socket, callId) => {
+  const room = rooms.get(callId);
+  if (!room) return;
+
+  room.members.delete(socket);
+  socket.callIds.delete(callId);
+
+  if (room.members.size === 0) {
+    rooms.delete(callId);
+  }
+};
+
+const handleFrame = async (socket, frame) => {
+  switch (frame.kind) {
+    case 'join': {
+      const { callId } = frame;
+      const userId = await authorizeJoin(socket, callId, frame.idToken);
+      if (!userId || socket.readyState !== WebSocket.OPEN) return;
+
+      let room = rooms.get(callId);
+      const isNewRoom = !room;
+
+      if (!room) {
+        room = { seq: 0, history: [], members: new Map() };
+        rooms.set(callId, room);
+      }
+
+      room.members.set(socket, userId);
+      socket.callIds.add(callId);
+
+      // A fresh room means the server restarted, so the client's cursor is meaningless
+      const after = isNewRoom ? 0 : Number(frame.after) || 0;
+      room.history
+        .filter(entry => entry.seq > after && isAddressedTo(entry.message, userId))
+        .forEach(entry => deliver(socket, entry.seq, entry.message));
+      break;
+    }
+
+    case 'leave':
+      leaveRoom(socket, frame.callId);
+      break;
+
+    case 'signal': {
+      const { message } = frame;
+      const room = rooms.get(message && message.callId);
+
+      if (!room || room.members.get(socket) !== message.fromUserId) {
+        console.warn('Dropping signal from a socket that has not joined the call');
+        return;
+      }
+
+      room.seq += 1;
+      room.history.push({ seq: room.seq, message });
+      if (room.history.length > MAX_HISTORY) {
+        room.history.shift();
+      }
+
+      room.members.forEach((userId, member) => {
+        if (isAddressedTo(message, userId)) {
+          deliver(member, room.seq, message);
+        }
+      });
+      break;
+    }
+
+    default:
+      console.warn('Unknown frame kind:', frame.kind);
+  }
+};
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', (socket) => {
+  socket.callIds = new Set();
+  socket.isAlive = true;
+  // Frames are handled one at a time, so signals sent right after a join wait for its verification
+  socket.frames = Promise.resolve();
+
+  socket.on('pong', () => {
+    socket.isAlive = true;
+  });
+
+  socket.on('message', (raw) => {
+    let frame;
+    try {
+      frame = JSON.parse(raw.toString());
+    } catch (error) {
+      console.warn('Ignoring invalid frame:', error.message);
+      return;
+    }
+    socket.frames = socket.frames
+      .then(() => handleFrame(socket, frame))
+      .catch(error => console.error('Error handling frame:', error));
+  });
+
+  socket.on('close', () => {
+    Array.from(socket.callIds).forEach(callId => leaveRoom(socket, callId));
+  });
+});
+
+// Drop sockets that stopped answering pings (closed laptops, dead networks)
+const heartbeat = setInterval(() => {
+  server.clients.forEach((socket) => {
+    if (!socket.isAlive) {
+      socket.terminate();
+      return;
+    }
+    socket.isAlive = false;
+    socket.ping();
+  });
+}, HEARTBEAT_INTERVAL_MS);
+
+server.on('close', () => clearInterval(heartbeat));
+
+console.log(`Signaling server listening on ws://localhost:${PORT}`);
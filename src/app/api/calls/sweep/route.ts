@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminDb } from '@/lib/firebase-admin';
+import { sweepRingingCalls } from '@/lib/sweeper';
+
+export const dynamic = 'force-dynamic';
+
+// Meant to be hit by a scheduler (cron) with `Authorization: Bearer $CRON_SECRET`
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: 'CRON_SECRET is not configured' }, { status: 503 });
+  }
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const swept = await sweepRingingCalls(getAdminDb());
+    return NextResponse.json({ swept }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    console.error('Error sweeping ringing calls:', error);
+    return NextResponse.json({ error: 'Sweep failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminAuth } from '@/lib/firebase-admin';
+import { buildIceServers } from '@/lib/turn';
+
+// Credentials embed an expiry, so they must never be cached or prerendered
+export const dynamic = 'force-dynamic';
+
+// TURN credentials only for signed-in users (`Authorization: Bearer <Firebase ID token>`),
+// otherwise anyone could use the TURN server as an open relay
+export async function GET(request: NextRequest) {
+  const header = request.headers.get('authorization') || '';
+  const idToken = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+  if (!idToken) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let uid: string;
+  try {
+    uid = (await getAdminAuth().verifyIdToken(idToken)).uid;
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // Only used as the TURN username label, which shows up in coturn logs
+  const label = uid.replace(/[^A-Za-z0-9_-]/g, '').slice(0, 64) || 'anonymous';
+
+  return NextResponse.json(buildIceServers(label), {
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
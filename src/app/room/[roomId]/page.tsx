@@ -0,0 +1,34 @@
+'use client';
+
+import { useAuth } from '@/contexts/AuthContext';
+import LoginPage from '@/components/auth/LoginPage';
+import RoomLobby from '@/components/room/RoomLobby';
+import CallUI from '@/components/call/CallUI';
+import IncomingCallNotification from '@/components/call/IncomingCallNotification';
+
+export default function RoomPage({ params }: { params: { roomId: string } }) {
+  const { user, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <LoginPage />;
+  }
+
+  return (
+    <>
+      <RoomLobby roomId={params.roomId} />
+      <CallUI />
+      <IncomingCallNotification />
+    </>
+  );
+}
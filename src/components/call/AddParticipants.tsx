@@ -0,0 +1,109 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCall } from '@/contexts/CallContext';
+import { subscribeToOnlineUsers } from '@/lib/users';
+import { MAX_PARTICIPANTS, isActiveState } from '@/lib/calls';
+import { User } from '@/types';
+import { X } from 'lucide-react';
+
+interface AddParticipantsProps {
+  onClose: () => void;
+}
+
+export default function AddParticipants({ onClose }: AddParticipantsProps) {
+  const { user } = useAuth();
+  const { participants, participantStates, addParticipants } = useCall();
+  const [onlineUsers, setOnlineUsers] = useState<User[]>([]);
+  const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
+  const [isInviting, setIsInviting] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    return subscribeToOnlineUsers(user.uid, setOnlineUsers);
+  }, [user?.uid]);
+
+  // Everyone still in the call or ringing counts toward the limit, plus ourselves;
+  // whoever declined, rang out or left can be invited again
+  const activeIds = participants
+    .map(p => p.uid)
+    .filter(id => isActiveState(participantStates[id]?.state));
+  const openSlots = MAX_PARTICIPANTS - activeIds.length - 1;
+  const candidates = onlineUsers.filter(onlineUser => !activeIds.includes(onlineUser.uid));
+
+  const toggleUserSelection = (userId: string) => {
+    setSelectedUsers(prev =>
+      prev.includes(userId)
+        ? prev.filter(id => id !== userId)
+        : prev.length < openSlots ? [...prev, userId] : prev
+    );
+  };
+
+  const handleInvite = async () => {
+    setIsInviting(true);
+    try {
+      await addParticipants(selectedUsers);
+      onClose();
+    } catch (error) {
+      console.error('Error adding participants:', error);
+      alert(error instanceof Error ? error.message : 'Failed to add participants. Please try again.');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  return (
+    <div className="absolute bottom-24 left-1/2 transform -translate-x-1/2 w-80 bg-gray-800 rounded-xl shadow-2xl border border-gray-700 p-4 z-10">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-white font-semibold">Add people</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" title="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <p className="text-sm text-gray-400 mb-4">
+        {openSlots > 0
+          ? `Select up to ${openSlots} (Selected: ${selectedUsers.length}/${openSlots})`
+          : `The call is full (${MAX_PARTICIPANTS} participants)`}
+      </p>
+
+      <div className="max-h-64 overflow-y-auto space-y-2">
+        {candidates.length === 0 ? (
+          <p className="text-center text-gray-500 text-sm py-6">No one else is online</p>
+        ) : (
+          candidates.map((onlineUser) => (
+            <label
+              key={onlineUser.uid}
+              className={`flex items-center gap-3 p-2 rounded-lg cursor-pointer transition-colors ${
+                selectedUsers.includes(onlineUser.uid) ? 'bg-blue-600' : 'hover:bg-gray-700'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={selectedUsers.includes(onlineUser.uid)}
+                onChange={() => toggleUserSelection(onlineUser.uid)}
+                disabled={openSlots <= 0}
+                className="w-4 h-4"
+              />
+              <img
+                src={onlineUser.photoURL || '/default-avatar.png'}
+                alt={onlineUser.displayName}
+                className="w-8 h-8 rounded-full"
+              />
+              <span className="text-white text-sm truncate">{onlineUser.displayName}</span>
+            </label>
+          ))
+        )}
+      </div>
+
+      <button
+        onClick={handleInvite}
+        disabled={selectedUsers.length === 0 || isInviting}
+        className="w-full mt-4 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-600 text-white text-sm font-medium py-2 rounded-lg transition-colors"
+      >
+        {isInviting ? 'Inviting...' : 'Invite'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import React from 'react';
+import { useCall } from '@/contexts/CallContext';
+import { IceCandidateStats, IceCandidateType } from '@/types';
+import { X } from 'lucide-react';
+import SignalBars from './SignalBars';
+
+interface CallHealthPanelProps {
+  onClose: () => void;
+}
+
+const ROUTE_LABELS: Record<IceCandidateType, string> = {
+  host: 'Direct (local network)',
+  srflx: 'Direct (via STUN)',
+  prflx: 'Direct (peer reflexive)',
+  relay: 'Relayed (TURN)',
+};
+
+const formatBitrate = (bitsPerSecond: number | null): string => {
+  if (bitsPerSecond === null) return '—';
+  return bitsPerSecond >= 1000000
+    ? `${(bitsPerSecond / 1000000).toFixed(1)} Mbps`
+    : `${Math.round(bitsPerSecond / 1000)} kbps`;
+};
+
+// Relayed if either end goes through TURN
+const getRoute = (local: IceCandidateType | null, remote: IceCandidateType | null): string => {
+  if (local === 'relay' || remote === 'relay') return ROUTE_LABELS.relay;
+  return local ? ROUTE_LABELS[local] : '—';
+};
+
+const formatMs = (value: number | null): string => (value === null ? '—' : `${value} ms`);
+
+// Remote ICE candidates: how many arrived early and had to wait, and how many the browser rejected
+const formatCandidates = (stats: IceCandidateStats | undefined): string => {
+  if (!stats) return '—';
+  return [
+    `${stats.applied} applied`,
+    ...(stats.queued > 0 ? [`${stats.queued} early`] : []),
+    ...(stats.rejected > 0 ? [`${stats.rejected} rejected`] : []),
+  ].join(', ');
+};
+
+export default function CallHealthPanel({ onClose }: CallHealthPanelProps) {
+  const { participants, peerStats, iceCandidateStats } = useCall();
+
+  return (
+    <div className="absolute top-4 right-4 w-80 max-h-[70vh] overflow-y-auto bg-gray-800 bg-opacity-95 rounded-xl shadow-2xl border border-gray-700 p-4 z-10">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-semibold">Call health</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" title="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {peerStats.size === 0 ? (
+        <p className="text-gray-400 text-sm">No active connections yet</p>
+      ) : (
+        <div className="space-y-4">
+          {Array.from(peerStats.entries()).map(([userId, stats]) => {
+            const participant = participants.find(p => p.uid === userId);
+            const rows: [string, string][] = [
+              ['Download', formatBitrate(stats.inboundBitrate)],
+              ['Upload', formatBitrate(stats.outboundBitrate)],
+              ['Available upload', formatBitrate(stats.availableOutgoingBitrate)],
+              ['Packet loss', `${(stats.packetLoss * 100).toFixed(1)}%`],
+              ['Jitter', formatMs(stats.jitter)],
+              ['Round trip', formatMs(stats.roundTripTime)],
+              ['Video', stats.resolution
+                ? `${stats.resolution.width}×${stats.resolution.height}` +
+                  (stats.framesPerSecond !== null ? ` @ ${Math.round(stats.framesPerSecond)} fps` : '')
+                : '—'],
+              ['Route', getRoute(stats.localCandidateType, stats.remoteCandidateType)],
+              ['Candidates', formatCandidates(iceCandidateStats.get(userId))],
+            ];
+
+            return (
+              <div key={userId} className="border-t border-gray-700 pt-3 first:border-t-0 first:pt-0">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-white text-sm font-medium truncate">
+                    {participant?.displayName || 'Unknown'}
+                  </span>
+                  <SignalBars quality={stats.quality} />
+                </div>
+                <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+                  {rows.map(([label, value]) => (
+                    <React.Fragment key={label}>
+                      <dt className="text-gray-400">{label}</dt>
+                      <dd className="text-gray-200 text-right">{value}</dd>
+                    </React.Fragment>
+                  ))}
+                </dl>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
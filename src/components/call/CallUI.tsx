@@ -1,8 +1,55 @@
 'use client';
 
-import React, { useEffect, useRef } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
 import { useCall } from '@/contexts/CallContext';
-import { Mic, MicOff, Video, VideoOff, PhoneOff, Users } from 'lucide-react';
+import {
+  Mic,
+  MicOff,
+  Video,
+  VideoOff,
+  PhoneOff,
+  Users,
+  Loader2,
+  ScreenShare,
+  ScreenShareOff,
+  Settings,
+  UserPlus,
+  Activity,
+  LayoutGrid,
+  UserSquare2,
+  CircleDot,
+  Square,
+  MessageSquare,
+  Paperclip,
+  Hand,
+  Smile,
+  Lock,
+} from 'lucide-react';
+import VideoTile from './VideoTile';
+import DeviceSettings from './DeviceSettings';
+import AddParticipants from './AddParticipants';
+import CallWaitingBanner from './CallWaitingBanner';
+import CallHealthPanel from './CallHealthPanel';
+import ChatPanel from './ChatPanel';
+import FileTransferPanel from './FileTransferPanel';
+import ReactionOverlay from './ReactionOverlay';
+import ParticipantsPanel from './ParticipantsPanel';
+import { REACTION_EMOJIS } from '@/lib/reactions';
+import SignalBars from './SignalBars';
+import { ParticipantCallState } from '@/types';
+
+// Shown for participants who aren't (or are no longer) connected
+const STATE_LABELS: Record<ParticipantCallState, string> = {
+  invited: 'Calling...',
+  ringing: 'Ringing...',
+  joined: 'Connecting...',
+  declined: 'Declined',
+  left: 'Left the call',
+  'timed-out': 'No answer',
+  busy: 'Busy',
+  held: 'On hold',
+};
 
 export default function CallUI() {
   const {
@@ -11,29 +58,259 @@ export default function CallUI() {
     callType,
     localStream,
     remoteStreams,
+    peerStatus,
     participants,
+    participantStates,
     isMuted,
     isVideoOff,
-    endCall,
+    isScreenSharing,
+    screenStream,
+    remoteMediaState,
+    peerStats,
+    sendingAudioOnly,
+    receivingAudioOnly,
+    activeSpeakerId,
+    recordingBy,
+    isRecording,
+    chatMessages,
+    fileTransfers,
+    reactions,
+    raisedHands,
+    roomId,
+    hostId,
+    isLocked,
+    mutedByHost,
+    leaveCall,
+    endCallForAll,
     toggleMute,
     toggleVideo,
+    startScreenShare,
+    stopScreenShare,
+    startRecording,
+    stopRecording,
+    sendReaction,
+    setHandRaised,
+    selectedDevices,
   } = useCall();
+  const { user } = useAuth();
+
+  const [showDeviceSettings, setShowDeviceSettings] = useState(false);
+  const [showAddParticipants, setShowAddParticipants] = useState(false);
+  const [showParticipants, setShowParticipants] = useState(false);
+  const [showCallHealth, setShowCallHealth] = useState(false);
+  const [isSpeakerView, setIsSpeakerView] = useState(false);
+  const [showChat, setShowChat] = useState(false);
+  // How many chat messages have been on screen, for the unread badge
+  const [readChatCount, setReadChatCount] = useState(0);
+  const [showFiles, setShowFiles] = useState(false);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [showReactionPicker, setShowReactionPicker] = useState(false);
+  // Who speaker view puts on stage: the last remote speaker, so talking ourselves doesn't empty it
+  const [spotlightId, setSpotlightId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (activeSpeakerId && activeSpeakerId !== user?.uid) {
+      setSpotlightId(activeSpeakerId);
+    }
+  }, [activeSpeakerId, user?.uid]);
+
+  // Setup local video - shows our screen instead of the camera while presenting.
+  // A callback ref, since the preview moves between layouts (a new <video>
+  // each time) and every one of them needs the stream as it mounts.
+  const localPreviewStream = screenStream || localStream;
+  const localVideoRef = useCallback(
+    (el: HTMLVideoElement | null) => {
+      if (el && el.srcObject !== localPreviewStream) {
+        el.srcObject = localPreviewStream;
+      }
+    },
+    [localPreviewStream]
+  );
 
-  const localVideoRef = useRef<HTMLVideoElement>(null);
+  // Close the device picker when the call ends so it doesn't reappear on the next one
+  useEffect(() => {
+    if (!isInCall && !isCalling) {
+      setShowDeviceSettings(false);
+      setShowParticipants(false);
+      setSpotlightId(null);
+      setShowChat(false);
+      setReadChatCount(0);
+      setShowFiles(false);
+      setPendingFiles([]);
+      setShowReactionPicker(false);
+    }
+  }, [isInCall, isCalling]);
 
-  // Setup local video
   useEffect(() => {
-    if (localStream && localVideoRef.current) {
-      localVideoRef.current.srcObject = localStream;
+    if (showChat) {
+      setReadChatCount(chatMessages.length);
     }
-  }, [localStream]);
+  }, [showChat, chatMessages.length]);
 
   if (!isInCall && !isCalling) return null;
 
   const isGroupCall = participants.length > 1;
+  // In a 1:1 call leaving already ends it, so only offer this in group calls
+  const canEndForAll = isGroupCall && !!user && hostId === user.uid;
+
+  const handleEndForAll = async () => {
+    if (!confirm('End the call for everyone?')) return;
+    try {
+      await endCallForAll();
+    } catch (error) {
+      console.error('Error ending call:', error);
+    }
+  };
+
+  const getStateLabel = (userId: string): string | null => {
+    const state = participantStates[userId]?.state;
+    if (!state || (state === 'joined' && remoteStreams.has(userId))) return null;
+    return STATE_LABELS[state];
+  };
+
+  // Video tiles for people without media yet (ringing, connecting, declined...)
+  const waitingParticipants = participants.filter(
+    p => !remoteStreams.has(p.uid) && participantStates[p.uid]
+  );
+  const remoteTileCount = remoteStreams.size + waitingParticipants.length;
+  const joinedCount = Object.values(participantStates).filter(entry => entry.state === 'joined').length;
+  const ringingCount = Object.values(participantStates).filter(
+    entry => entry.state === 'invited' || entry.state === 'ringing'
+  ).length;
+
+  // A remote participant sharing their screen takes over the stage
+  const presenterId = Array.from(remoteMediaState.entries()).find(
+    ([userId, mediaState]) => mediaState.isScreenSharing && remoteStreams.has(userId)
+  )?.[0];
+  // ...otherwise speaker view puts whoever is talking there
+  const speakerStageId = isSpeakerView && remoteStreams.size > 0
+    ? (spotlightId && remoteStreams.has(spotlightId) ? spotlightId : Array.from(remoteStreams.keys())[0])
+    : undefined;
+  const stageId = presenterId || speakerStageId;
+  const isLocalSpeaking = !!user && activeSpeakerId === user.uid;
+  const isHost = !!user && hostId === user.uid;
+
+  // From each participant's published media state. A screen share still sends
+  // video with the camera off, so only show the avatar when neither is on.
+  const isRemoteMuted = (userId: string): boolean => !!remoteMediaState.get(userId)?.isMuted;
+  const isRemoteVideoOff = (userId: string): boolean => {
+    const mediaState = remoteMediaState.get(userId);
+    return !!mediaState?.isVideoOff && !mediaState.isScreenSharing;
+  };
+  const getPhotoURL = (userId: string) => participants.find(p => p.uid === userId)?.photoURL;
+
+  // Raised hands in the order they went up
+  const handQueue = Array.from(raisedHands.entries())
+    .sort(([, a], [, b]) => a - b)
+    .map(([userId]) => userId);
+  const getHandPosition = (userId: string): number | undefined => {
+    const index = handQueue.indexOf(userId);
+    return index === -1 ? undefined : index + 1;
+  };
+  const getReactions = (userId: string | undefined) => reactions.filter(reaction => reaction.userId === userId);
+  const isHandRaised = !!user && raisedHands.has(user.uid);
+  const localHandPosition = user ? getHandPosition(user.uid) : undefined;
+  // Without our own video tile, our reactions float up from the bottom of the call
+  const hasLocalTile = callType === 'video' && !isVideoOff;
+  const unreadChatCount = chatMessages
+    .slice(readChatCount)
+    .filter(message => message.senderId !== user?.uid).length;
+  const activeTransferCount = Array.from(fileTransfers.values()).filter(
+    transfer => transfer.status === 'sending' || transfer.status === 'receiving' || transfer.status === 'verifying'
+  ).length;
+
+  // Dropping files anywhere on the call opens the files panel to pick who gets them
+  const isFileDrag = (e: React.DragEvent) => isInCall && e.dataTransfer.types.includes('Files');
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    setIsDraggingFile(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDraggingFile(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) {
+      setPendingFiles(files);
+      setShowFiles(true);
+    }
+  };
+
+  // Someone who dropped out of the call without clearing the flag isn't recording any more
+  const recorderNames = recordingBy
+    .filter(id => (id === user?.uid ? isRecording : participantStates[id]?.state === 'joined'))
+    .map(id => (id === user?.uid ? 'you' : participants.find(p => p.uid === id)?.displayName || 'someone'));
+
+  const handleToggleRecording = async () => {
+    try {
+      if (isRecording) {
+        await stopRecording();
+      } else {
+        if (!confirm('Start recording? Everyone in the call will see that you are recording.')) return;
+        await startRecording();
+      }
+    } catch (error: any) {
+      alert(error.message || 'Failed to record the call. Please try again.');
+    }
+  };
+
+  const handleReaction = async (emoji: string) => {
+    try {
+      await sendReaction(emoji);
+    } catch (error: any) {
+      alert(error.message || 'Failed to send reaction. Please try again.');
+    }
+  };
+
+  const handleLowerHand = async (userId?: string) => {
+    try {
+      await setHandRaised(false, userId);
+    } catch (error) {
+      console.error('Error lowering hand:', error);
+    }
+  };
+
+  const handleToggleHand = async () => {
+    if (isHandRaised) {
+      await handleLowerHand();
+      return;
+    }
+    try {
+      await setHandRaised(true);
+    } catch (error) {
+      console.error('Error raising hand:', error);
+    }
+  };
+
+  const handleToggleScreenShare = async () => {
+    try {
+      if (isScreenSharing) {
+        await stopScreenShare();
+      } else {
+        await startScreenShare();
+      }
+    } catch (error: any) {
+      alert(error.message || 'Failed to share screen. Please try again.');
+    }
+  };
 
   return (
-    <div className="fixed inset-0 bg-gray-900 z-50 flex flex-col">
+    <div
+      className="fixed inset-0 bg-gray-900 z-50 flex flex-col"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       {/* Header */}
       <div className="bg-gray-800 px-6 py-4">
         <div className="flex items-center justify-between">
@@ -42,9 +319,14 @@ export default function CallUI() {
               {isGroupCall ? (
                 <>
                   <Users className="w-5 h-5" />
-                  <span className="text-lg font-semibold">
-                    Group Call ({participants.length + 1} participants)
-                  </span>
+                  <div>
+                    <p className="text-lg font-semibold">
+                      Group Call ({participants.length + 1} participants)
+                    </p>
+                    <p className="text-sm text-gray-400">
+                      {joinedCount} joined{ringingCount > 0 && ` • ${ringingCount} ringing`}
+                    </p>
+                  </div>
                 </>
               ) : (
                 <>
@@ -62,7 +344,9 @@ export default function CallUI() {
                       {participants[0]?.displayName || 'Unknown'}
                     </p>
                     <p className="text-sm text-gray-400">
-                      {isCalling ? 'Calling...' : 'Connected'}
+                      {isCalling
+                        ? 'Calling...'
+                        : (participants[0] && getStateLabel(participants[0].uid)) || 'Connected'}
                     </p>
                   </div>
                 </>
@@ -71,6 +355,24 @@ export default function CallUI() {
           </div>
           
           <div className="flex items-center gap-2">
+            {isLocked && (
+              <span
+                className="flex items-center gap-1 px-3 py-1 rounded-full text-sm font-medium bg-yellow-600 text-white"
+                title="The host locked the call: nobody new can join"
+              >
+                <Lock className="w-3 h-3" />
+                Locked
+              </span>
+            )}
+            {recorderNames.length > 0 && (
+              <span
+                className="flex items-center gap-2 px-3 py-1 rounded-full text-sm font-medium bg-red-600 text-white"
+                title={`Recorded by ${recorderNames.join(', ')}`}
+              >
+                <span className="w-2 h-2 bg-white rounded-full animate-pulse"></span>
+                Recording
+              </span>
+            )}
             <span className={`px-3 py-1 rounded-full text-sm font-medium ${
               callType === 'video' 
                 ? 'bg-blue-500 text-white' 
@@ -94,61 +396,169 @@ export default function CallUI() {
               el.muted = false;
               el.play().catch(err => console.log('Audio autoplay blocked:', err));
             }
+            // Route to the selected speaker ('' is the system default)
+            const sinkId = selectedDevices.audiooutput || '';
+            if (el && 'setSinkId' in el && el.sinkId !== sinkId) {
+              el.setSinkId(sinkId).catch(err => console.error('Error setting audio output:', err));
+            }
           }}
           autoPlay
           playsInline
         />
       ))}
 
+      <CallWaitingBanner />
+
       {/* Video Grid */}
       <div className="flex-1 relative overflow-hidden">
-        {callType === 'video' ? (
-          <div className={`h-full grid ${
-            remoteStreams.size === 0 ? 'grid-cols-1' :
-            remoteStreams.size === 1 ? 'grid-cols-1 md:grid-cols-2' :
-            remoteStreams.size === 2 ? 'grid-cols-2' :
-            remoteStreams.size === 3 ? 'grid-cols-2 md:grid-cols-3' :
-            'grid-cols-2 md:grid-cols-2'
-          } gap-2 p-4`}>
-            {/* Remote videos - audio is handled by hidden audio elements above */}
-            {Array.from(remoteStreams.entries()).map(([userId, stream]) => {
-              const participant = participants.find(p => p.uid === userId);
-              return (
-                <div key={userId} className="relative bg-gray-800 rounded-lg overflow-hidden">
+        {showCallHealth && <CallHealthPanel onClose={() => setShowCallHealth(false)} />}
+        {showChat && <ChatPanel onClose={() => setShowChat(false)} />}
+        {showFiles && (
+          <FileTransferPanel
+            pendingFiles={pendingFiles}
+            onPendingFilesChange={setPendingFiles}
+            onClose={() => setShowFiles(false)}
+          />
+        )}
+        {isDraggingFile && (
+          <div className="absolute inset-4 z-30 rounded-xl border-2 border-dashed border-blue-400 bg-gray-900 bg-opacity-80 flex items-center justify-center pointer-events-none">
+            <p className="text-white text-lg font-semibold">Drop to send to the call</p>
+          </div>
+        )}
+
+        {callType === 'video' && stageId ? (
+          /* Stage layout - a shared screen or the active speaker large, everyone else in a filmstrip */
+          <div className="h-full flex flex-col gap-2 p-4">
+            <VideoTile
+              stream={remoteStreams.get(stageId)!}
+              label={stageId === presenterId
+                ? `${participants.find(p => p.uid === stageId)?.displayName || 'Someone'} is presenting`
+                : participants.find(p => p.uid === stageId)?.displayName}
+              isReconnecting={peerStatus.get(stageId) === 'reconnecting'}
+              isVideoPaused={receivingAudioOnly.has(stageId)}
+              isMuted={isRemoteMuted(stageId)}
+              isVideoOff={isRemoteVideoOff(stageId)}
+              avatarUrl={getPhotoURL(stageId)}
+              quality={peerStats.get(stageId)?.quality}
+              handPosition={getHandPosition(stageId)}
+              reactions={getReactions(stageId)}
+              fit={stageId === presenterId ? 'contain' : 'cover'}
+              className="flex-1 min-h-0"
+            />
+            <div className="h-32 flex gap-2 overflow-x-auto">
+              {Array.from(remoteStreams.entries())
+                .filter(([userId]) => userId !== stageId)
+                .map(([userId, stream]) => (
+                  <VideoTile
+                    key={userId}
+                    stream={stream}
+                    label={participants.find(p => p.uid === userId)?.displayName}
+                    isReconnecting={peerStatus.get(userId) === 'reconnecting'}
+                    isVideoPaused={receivingAudioOnly.has(userId)}
+                    isMuted={isRemoteMuted(userId)}
+                    isVideoOff={isRemoteVideoOff(userId)}
+                    avatarUrl={getPhotoURL(userId)}
+                    isSpeaking={activeSpeakerId === userId}
+                    handPosition={getHandPosition(userId)}
+                    reactions={getReactions(userId)}
+                    quality={peerStats.get(userId)?.quality}
+                    className="w-48 flex-shrink-0"
+                  />
+                ))}
+              {!isVideoOff && (
+                <div className={`relative w-48 flex-shrink-0 bg-gray-800 rounded-lg overflow-hidden ${
+                  isLocalSpeaking ? 'ring-4 ring-green-500' : ''
+                }`}>
                   <video
-                    ref={(el) => {
-                      if (el && el.srcObject !== stream) {
-                        el.srcObject = stream;
-                        el.play().catch(err => console.log('Video autoplay blocked:', err));
-                      }
-                    }}
+                    ref={localVideoRef}
                     autoPlay
                     muted
                     playsInline
-                    className="w-full h-full object-cover"
+                    className={`w-full h-full object-cover ${isScreenSharing ? '' : 'mirror'}`}
                   />
-                  {participant && (
-                    <div className="absolute bottom-4 left-4 bg-black bg-opacity-60 px-3 py-1 rounded-full text-white text-sm font-medium">
-                      {participant.displayName}
+                  <div className="absolute top-2 left-2 bg-black bg-opacity-60 px-2 py-1 rounded text-white text-xs font-medium">
+                    You
+                  </div>
+                  {localHandPosition !== undefined && (
+                    <div className="absolute top-2 right-2 bg-yellow-400 px-2 py-1 rounded-md text-gray-900 text-xs font-semibold">
+                      ✋ {localHandPosition}
                     </div>
                   )}
+                  <ReactionOverlay reactions={getReactions(user?.uid)} />
                 </div>
-              );
-            })}
+              )}
+            </div>
+          </div>
+        ) : callType === 'video' ? (
+          <div className={`h-full grid ${
+            remoteTileCount === 0 ? 'grid-cols-1' :
+            remoteTileCount === 1 ? 'grid-cols-1 md:grid-cols-2' :
+            remoteTileCount === 2 ? 'grid-cols-2' :
+            remoteTileCount === 3 ? 'grid-cols-2 md:grid-cols-3' :
+            'grid-cols-2 md:grid-cols-2'
+          } gap-2 p-4`}>
+            {/* Remote videos - audio is handled by hidden audio elements above */}
+            {Array.from(remoteStreams.entries()).map(([userId, stream]) => (
+              <VideoTile
+                key={userId}
+                stream={stream}
+                label={participants.find(p => p.uid === userId)?.displayName}
+                isReconnecting={peerStatus.get(userId) === 'reconnecting'}
+                isVideoPaused={receivingAudioOnly.has(userId)}
+                isMuted={isRemoteMuted(userId)}
+                isVideoOff={isRemoteVideoOff(userId)}
+                avatarUrl={getPhotoURL(userId)}
+                isSpeaking={activeSpeakerId === userId}
+                handPosition={getHandPosition(userId)}
+                reactions={getReactions(userId)}
+                quality={peerStats.get(userId)?.quality}
+              />
+            ))}
+
+            {waitingParticipants.map((participant) => (
+              <div
+                key={participant.uid}
+                className="relative bg-gray-800 rounded-lg overflow-hidden flex flex-col items-center justify-center gap-3"
+              >
+                <img
+                  src={participant.photoURL}
+                  alt={participant.displayName}
+                  className="w-20 h-20 rounded-full opacity-60"
+                />
+                <p className="text-white font-semibold">{participant.displayName}</p>
+                <p className="text-gray-400 text-sm">{getStateLabel(participant.uid)}</p>
+              </div>
+            ))}
 
             {/* Local video */}
             {!isVideoOff && (
-              <div className="relative bg-gray-800 rounded-lg overflow-hidden">
+              <div className={`relative bg-gray-800 rounded-lg overflow-hidden ${
+                isLocalSpeaking ? 'ring-4 ring-green-500' : ''
+              }`}>
                 <video
                   ref={localVideoRef}
                   autoPlay
                   muted
                   playsInline
-                  className="w-full h-full object-cover mirror"
+                  className={`w-full h-full ${isScreenSharing ? 'object-contain' : 'object-cover mirror'}`}
                 />
-                <div className="absolute bottom-4 left-4 bg-black bg-opacity-60 px-3 py-1 rounded-full text-white text-sm font-medium">
-                  You
+                <div className="absolute bottom-4 left-4 flex items-center gap-2 bg-black bg-opacity-60 px-3 py-1 rounded-full text-white text-sm font-medium">
+                  {isMuted && <MicOff className="w-4 h-4 text-red-400" aria-label="Muted" />}
+                  {isScreenSharing ? 'You (presenting)' : 'You'}
                 </div>
+                {sendingAudioOnly.size > 0 && (
+                  <div className="absolute top-3 left-3 bg-yellow-500 bg-opacity-90 px-2 py-1 rounded-md text-gray-900 text-xs font-medium">
+                    {sendingAudioOnly.size === remoteStreams.size
+                      ? 'Weak connection: sending audio only'
+                      : `Weak connection: audio only to ${sendingAudioOnly.size}`}
+                  </div>
+                )}
+                {localHandPosition !== undefined && (
+                  <div className="absolute top-3 right-3 bg-yellow-400 px-2 py-1 rounded-md text-gray-900 text-xs font-semibold">
+                    ✋ {localHandPosition}
+                  </div>
+                )}
+                <ReactionOverlay reactions={getReactions(user?.uid)} />
               </div>
             )}
           </div>
@@ -161,44 +571,133 @@ export default function CallUI() {
               participants.length === 3 ? 'grid-cols-4' :
               'grid-cols-2 md:grid-cols-3'
             } gap-8`}>
-              {participants.map((participant) => (
-                <div key={participant.uid} className="flex flex-col items-center gap-4">
-                  <div className="relative">
-                    <img
-                      src={participant.photoURL}
-                      alt={participant.displayName}
-                      className="w-32 h-32 rounded-full border-4 border-green-500 shadow-xl"
-                    />
-                    <div className="absolute -bottom-2 left-1/2 transform -translate-x-1/2 bg-green-500 px-3 py-1 rounded-full">
-                      <div className="w-3 h-3 bg-white rounded-full animate-pulse"></div>
+              {participants.map((participant) => {
+                const isReconnecting = peerStatus.get(participant.uid) === 'reconnecting';
+                const stateLabel = getStateLabel(participant.uid);
+                const isSpeaking = activeSpeakerId === participant.uid;
+                const handPosition = getHandPosition(participant.uid);
+                return (
+                  <div key={participant.uid} className="flex flex-col items-center gap-4">
+                    <div className="relative">
+                      <img
+                        src={participant.photoURL}
+                        alt={participant.displayName}
+                        className={`w-32 h-32 rounded-full border-4 shadow-xl ${
+                          isReconnecting ? 'border-yellow-500 opacity-50' :
+                          stateLabel ? 'border-gray-600 opacity-50' :
+                          isSpeaking ? 'border-green-500 ring-4 ring-green-400 ring-offset-4 ring-offset-gray-900' :
+                          'border-gray-500'
+                        }`}
+                      />
+                      {isReconnecting ? (
+                        <div className="absolute inset-0 flex items-center justify-center">
+                          <Loader2 className="w-10 h-10 text-white animate-spin" />
+                        </div>
+                      ) : !stateLabel && isSpeaking && (
+                        <div className="absolute -bottom-2 left-1/2 transform -translate-x-1/2 bg-green-500 px-3 py-1 rounded-full">
+                          <div className="w-3 h-3 bg-white rounded-full animate-pulse"></div>
+                        </div>
+                      )}
+                      {isRemoteMuted(participant.uid) && !isReconnecting && !stateLabel && (
+                        <div className="absolute bottom-1 right-1 bg-red-600 p-2 rounded-full" title="Muted">
+                          <MicOff className="w-4 h-4 text-white" />
+                        </div>
+                      )}
+                      {handPosition !== undefined && (
+                        <div className="absolute -top-1 -right-1 bg-yellow-400 px-2 py-1 rounded-full text-gray-900 text-xs font-semibold">
+                          ✋ {handPosition}
+                        </div>
+                      )}
+                      <ReactionOverlay reactions={getReactions(participant.uid)} />
                     </div>
+                    <div className="flex items-center gap-2">
+                      <p className="text-white text-lg font-semibold">{participant.displayName}</p>
+                      {peerStats.has(participant.uid) && (
+                        <SignalBars quality={peerStats.get(participant.uid)!.quality} />
+                      )}
+                    </div>
+                    {isReconnecting ? (
+                      <p className="text-yellow-400 text-sm">Reconnecting...</p>
+                    ) : stateLabel && (
+                      <p className="text-gray-400 text-sm">{stateLabel}</p>
+                    )}
                   </div>
-                  <p className="text-white text-lg font-semibold">{participant.displayName}</p>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </div>
         )}
 
         {/* Local video preview for video calls (small corner) */}
-        {callType === 'video' && !isVideoOff && remoteStreams.size > 0 && (
+        {callType === 'video' && !isVideoOff && remoteStreams.size > 0 && !stageId && (
           <div className="absolute bottom-24 right-6 w-48 h-36 bg-gray-800 rounded-lg overflow-hidden shadow-xl border-2 border-gray-700">
             <video
               ref={localVideoRef}
               autoPlay
               muted
               playsInline
-              className="w-full h-full object-cover mirror"
+              className={`w-full h-full object-cover ${isScreenSharing ? '' : 'mirror'}`}
             />
             <div className="absolute top-2 left-2 bg-black bg-opacity-60 px-2 py-1 rounded text-white text-xs font-medium">
               You
             </div>
           </div>
         )}
+
+        {!hasLocalTile && (
+          <ReactionOverlay
+            reactions={getReactions(user?.uid)}
+            className="absolute bottom-0 left-1/2 -translate-x-1/2 w-48 h-64"
+          />
+        )}
+
+        {/* Raised hands, first up first */}
+        {handQueue.length > 0 && (
+          <div className="absolute bottom-4 left-4 w-64 bg-gray-800 bg-opacity-95 rounded-xl shadow-2xl border border-gray-700 p-3 z-10">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-white text-sm font-semibold">Raised hands ({handQueue.length})</p>
+              {isHost && handQueue.some(id => id !== user?.uid) && (
+                <button
+                  onClick={() => handQueue.forEach(id => handleLowerHand(id))}
+                  className="text-xs text-blue-300 hover:text-blue-200"
+                >
+                  Lower all
+                </button>
+              )}
+            </div>
+            <ol className="space-y-1">
+              {handQueue.map((userId, index) => (
+                <li key={userId} className="flex items-center gap-2 text-sm text-gray-200">
+                  <span className="w-4 text-gray-400">{index + 1}.</span>
+                  <span className="flex-1 truncate">
+                    {userId === user?.uid ? 'You' : participants.find(p => p.uid === userId)?.displayName || 'Unknown'}
+                  </span>
+                  {(isHost || userId === user?.uid) && (
+                    <button
+                      onClick={() => handleLowerHand(userId)}
+                      className="text-xs text-gray-400 hover:text-white"
+                    >
+                      Lower
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
       </div>
 
       {/* Controls */}
-      <div className="bg-gray-800 px-6 py-6">
+      <div className="relative bg-gray-800 px-6 py-6">
+        {showDeviceSettings && <DeviceSettings onClose={() => setShowDeviceSettings(false)} />}
+        {showAddParticipants && <AddParticipants onClose={() => setShowAddParticipants(false)} />}
+        {showParticipants && <ParticipantsPanel onClose={() => setShowParticipants(false)} />}
+        {mutedByHost && isMuted && (
+          <div className="absolute -top-12 left-1/2 transform -translate-x-1/2 bg-gray-700 px-4 py-2 rounded-full text-white text-sm shadow-xl">
+            The host muted you
+          </div>
+        )}
+
         <div className="flex items-center justify-center gap-4">
           <button
             onClick={toggleMute}
@@ -234,13 +733,216 @@ export default function CallUI() {
             </button>
           )}
 
+          {callType === 'video' && (
+            <button
+              onClick={handleToggleScreenShare}
+              className={`p-4 rounded-full transition-colors ${
+                isScreenSharing
+                  ? 'bg-blue-500 hover:bg-blue-600'
+                  : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+              title={isScreenSharing ? 'Stop sharing' : 'Share screen'}
+            >
+              {isScreenSharing ? (
+                <ScreenShareOff className="w-6 h-6 text-white" />
+              ) : (
+                <ScreenShare className="w-6 h-6 text-white" />
+              )}
+            </button>
+          )}
+
+          {callType === 'video' && (
+            <button
+              onClick={() => setIsSpeakerView(prev => !prev)}
+              className="p-4 rounded-full bg-gray-700 hover:bg-gray-600 transition-colors"
+              title={isSpeakerView ? 'Grid view' : 'Speaker view'}
+            >
+              {isSpeakerView ? (
+                <LayoutGrid className="w-6 h-6 text-white" />
+              ) : (
+                <UserSquare2 className="w-6 h-6 text-white" />
+              )}
+            </button>
+          )}
+
+          {isInCall && (
+            <button
+              onClick={handleToggleHand}
+              className={`p-4 rounded-full transition-colors ${
+                isHandRaised
+                  ? 'bg-yellow-400 hover:bg-yellow-500'
+                  : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+              title={isHandRaised ? 'Lower hand' : 'Raise hand'}
+            >
+              <Hand className={`w-6 h-6 ${isHandRaised ? 'text-gray-900' : 'text-white'}`} />
+            </button>
+          )}
+
+          {isInCall && (
+            <div className="relative">
+              {showReactionPicker && (
+                <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-3 flex gap-1 bg-gray-700 rounded-full px-2 py-1 shadow-xl">
+                  {REACTION_EMOJIS.map(emoji => (
+                    <button
+                      key={emoji}
+                      onClick={() => handleReaction(emoji)}
+                      className="text-2xl p-1 rounded-full hover:bg-gray-600 transition-transform hover:scale-125"
+                    >
+                      {emoji}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <button
+                onClick={() => setShowReactionPicker(prev => !prev)}
+                className={`p-4 rounded-full transition-colors ${
+                  showReactionPicker
+                    ? 'bg-blue-500 hover:bg-blue-600'
+                    : 'bg-gray-700 hover:bg-gray-600'
+                }`}
+                title="Reactions"
+              >
+                <Smile className="w-6 h-6 text-white" />
+              </button>
+            </div>
+          )}
+
           <button
-            onClick={endCall}
+            onClick={handleToggleRecording}
+            className={`p-4 rounded-full transition-colors ${
+              isRecording
+                ? 'bg-red-500 hover:bg-red-600'
+                : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+            title={isRecording ? 'Stop recording and download' : 'Record call'}
+          >
+            {isRecording ? (
+              <Square className="w-6 h-6 text-white" />
+            ) : (
+              <CircleDot className="w-6 h-6 text-white" />
+            )}
+          </button>
+
+          {/* Rooms are joined by link, nobody is rung */}
+          {!roomId && (
+            <button
+              onClick={() => {
+                setShowAddParticipants(prev => !prev);
+                setShowDeviceSettings(false);
+                setShowParticipants(false);
+              }}
+              disabled={isLocked}
+              className={`p-4 rounded-full transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                showAddParticipants
+                  ? 'bg-blue-500 hover:bg-blue-600'
+                  : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+              title={isLocked ? 'The call is locked' : 'Add people'}
+            >
+              <UserPlus className="w-6 h-6 text-white" />
+            </button>
+          )}
+
+          {isGroupCall && isInCall && (
+            <button
+              onClick={() => {
+                setShowParticipants(prev => !prev);
+                setShowAddParticipants(false);
+                setShowDeviceSettings(false);
+              }}
+              className={`p-4 rounded-full transition-colors ${
+                showParticipants
+                  ? 'bg-blue-500 hover:bg-blue-600'
+                  : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+              title="Participants"
+            >
+              <Users className="w-6 h-6 text-white" />
+            </button>
+          )}
+
+          <button
+            onClick={() => {
+              setShowDeviceSettings(prev => !prev);
+              setShowAddParticipants(false);
+              setShowParticipants(false);
+            }}
+            className={`p-4 rounded-full transition-colors ${
+              showDeviceSettings
+                ? 'bg-blue-500 hover:bg-blue-600'
+                : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+            title="Devices"
+          >
+            <Settings className="w-6 h-6 text-white" />
+          </button>
+
+          <button
+            onClick={() => setShowChat(prev => !prev)}
+            className={`relative p-4 rounded-full transition-colors ${
+              showChat
+                ? 'bg-blue-500 hover:bg-blue-600'
+                : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+            title="Chat"
+          >
+            <MessageSquare className="w-6 h-6 text-white" />
+            {!showChat && unreadChatCount > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs font-semibold flex items-center justify-center">
+                {unreadChatCount > 9 ? '9+' : unreadChatCount}
+              </span>
+            )}
+          </button>
+
+          {isInCall && (
+            <button
+              onClick={() => setShowFiles(prev => !prev)}
+              className={`relative p-4 rounded-full transition-colors ${
+                showFiles
+                  ? 'bg-blue-500 hover:bg-blue-600'
+                  : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+              title="Send files"
+            >
+              <Paperclip className="w-6 h-6 text-white" />
+              {!showFiles && activeTransferCount > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-blue-400 text-white text-xs font-semibold flex items-center justify-center">
+                  {activeTransferCount}
+                </span>
+              )}
+            </button>
+          )}
+
+          <button
+            onClick={() => setShowCallHealth(prev => !prev)}
+            className={`p-4 rounded-full transition-colors ${
+              showCallHealth
+                ? 'bg-blue-500 hover:bg-blue-600'
+                : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+            title="Call health"
+          >
+            <Activity className="w-6 h-6 text-white" />
+          </button>
+
+          <button
+            onClick={leaveCall}
             className="p-4 rounded-full bg-red-600 hover:bg-red-700 transition-colors"
-            title="End call"
+            title={isGroupCall ? 'Leave call' : 'End call'}
           >
             <PhoneOff className="w-6 h-6 text-white" />
           </button>
+
+          {canEndForAll && (
+            <button
+              onClick={handleEndForAll}
+              className="px-5 py-4 rounded-full bg-red-800 hover:bg-red-900 transition-colors text-white text-sm font-semibold"
+              title="End call for everyone"
+            >
+              End for all
+            </button>
+          )}
         </div>
       </div>
 
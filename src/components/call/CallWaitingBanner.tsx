@@ -0,0 +1,94 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCall } from '@/contexts/CallContext';
+import { Pause, Phone, PhoneOff, Repeat, Video } from 'lucide-react';
+
+// Shown inside CallUI: a second call ringing through, and/or a call we put on hold
+export default function CallWaitingBanner() {
+  const { user } = useAuth();
+  const { waitingCall, heldCall, acceptWaitingCall, declineWaitingCall, swapHeldCall } = useCall();
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  if (!waitingCall && !heldCall) return null;
+
+  const runSwitch = async (action: () => Promise<void>) => {
+    setIsSwitching(true);
+    try {
+      await action();
+    } catch (error: any) {
+      alert(error.message || 'Failed to switch calls. Please try again.');
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <div className="px-6 pt-3 space-y-2">
+      {waitingCall && (
+        <div className="flex items-center gap-3 bg-gray-800 border border-blue-500 rounded-xl px-4 py-3 text-white">
+          <img
+            src={waitingCall.callerPhoto || '/default-avatar.png'}
+            alt={waitingCall.callerName}
+            className="w-10 h-10 rounded-full"
+          />
+          <div className="flex-1 min-w-0">
+            <p className="font-semibold truncate">{waitingCall.callerName}</p>
+            <p className="flex items-center gap-1 text-sm text-gray-400">
+              {waitingCall.type === 'video' ? <Video className="w-3 h-3" /> : <Phone className="w-3 h-3" />}
+              Incoming {waitingCall.type} call
+            </p>
+          </div>
+
+          {!heldCall && (
+            <button
+              onClick={() => runSwitch(() => acceptWaitingCall('hold'))}
+              disabled={isSwitching}
+              className="flex items-center gap-1 px-3 py-2 rounded-lg bg-green-600 hover:bg-green-700 disabled:bg-gray-600 text-sm font-medium"
+              title="Put this call on hold and answer"
+            >
+              <Pause className="w-4 h-4" />
+              Hold & answer
+            </button>
+          )}
+          <button
+            onClick={() => runSwitch(() => acceptWaitingCall('end'))}
+            disabled={isSwitching}
+            className="flex items-center gap-1 px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-sm font-medium"
+            title="Leave this call and answer"
+          >
+            <Phone className="w-4 h-4" />
+            End & answer
+          </button>
+          <button
+            onClick={declineWaitingCall}
+            disabled={isSwitching}
+            className="p-2 rounded-lg bg-red-600 hover:bg-red-700 disabled:bg-gray-600"
+            title="Decline"
+          >
+            <PhoneOff className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {heldCall && (
+        <div className="flex items-center gap-3 bg-gray-800 rounded-xl px-4 py-2 text-white text-sm">
+          <Pause className="w-4 h-4 text-yellow-400" />
+          <span className="flex-1 truncate">
+            On hold: {heldCall.callerId === user?.uid ? 'your call' : `call from ${heldCall.callerName}`}
+          </span>
+          <button
+            onClick={() => runSwitch(swapHeldCall)}
+            disabled={isSwitching}
+            className="flex items-center gap-1 px-3 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 disabled:text-gray-500"
+            title="Hold this call and resume the other one"
+          >
+            <Repeat className="w-4 h-4" />
+            Swap
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
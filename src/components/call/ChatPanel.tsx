@@ -0,0 +1,125 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCall } from '@/contexts/CallContext';
+import { MAX_CHAT_MESSAGE_LENGTH } from '@/lib/chat';
+import { Send, X } from 'lucide-react';
+
+interface ChatPanelProps {
+  onClose: () => void;
+}
+
+const URL_PATTERN = /(https?:\/\/[^\s]+)/g;
+
+// Makes links clickable; everything else stays plain text
+const renderText = (text: string) =>
+  text.split(URL_PATTERN).map((part, index) =>
+    index % 2 === 1 ? (
+      <a
+        key={index}
+        href={part}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="underline break-all text-blue-300 hover:text-blue-200"
+      >
+        {part}
+      </a>
+    ) : (
+      <React.Fragment key={index}>{part}</React.Fragment>
+    )
+  );
+
+export default function ChatPanel({ onClose }: ChatPanelProps) {
+  const { user } = useAuth();
+  const { participants, chatMessages, sendChatMessage, saveChatOnEnd, setSaveChatOnEnd } = useCall();
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [chatMessages.length]);
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    try {
+      sendChatMessage(draft);
+      setDraft('');
+    } catch (error: any) {
+      alert(error.message || 'Failed to send message. Please try again.');
+    }
+  };
+
+  const getSenderName = (senderId: string): string =>
+    senderId === user?.uid
+      ? 'You'
+      : participants.find(p => p.uid === senderId)?.displayName || 'Unknown';
+
+  return (
+    <div className="absolute top-0 right-0 bottom-0 w-80 bg-gray-800 bg-opacity-95 border-l border-gray-700 flex flex-col z-20">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+        <h3 className="text-white font-semibold">Chat</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" title="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+        {chatMessages.length === 0 ? (
+          <p className="text-center text-gray-500 text-sm py-6">
+            Messages are only seen by people in the call
+          </p>
+        ) : (
+          chatMessages.map((message) => (
+            <div key={message.id} className={message.senderId === user?.uid ? 'text-right' : ''}>
+              <p className="text-xs text-gray-400 mb-1">
+                {getSenderName(message.senderId)} •{' '}
+                {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </p>
+              <p
+                className={`inline-block max-w-full px-3 py-2 rounded-lg text-sm text-left whitespace-pre-wrap break-words ${
+                  message.senderId === user?.uid ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-100'
+                }`}
+              >
+                {renderText(message.text)}
+              </p>
+            </div>
+          ))
+        )}
+      </div>
+
+      <form onSubmit={handleSend} className="border-t border-gray-700 p-3 space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            maxLength={MAX_CHAT_MESSAGE_LENGTH}
+            placeholder="Send a message"
+            className="flex-1 min-w-0 bg-gray-700 text-white text-sm rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!draft.trim()}
+            className="p-2 rounded-lg bg-blue-500 hover:bg-blue-600 disabled:bg-gray-600"
+            title="Send"
+          >
+            <Send className="w-4 h-4 text-white" />
+          </button>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          <input
+            type="checkbox"
+            checked={saveChatOnEnd}
+            onChange={(e) => setSaveChatOnEnd(e.target.checked)}
+            className="w-3 h-3"
+          />
+          Save this chat with the call when I leave
+        </label>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import React from 'react';
+import { useCall } from '@/contexts/CallContext';
+import { X } from 'lucide-react';
+
+interface DeviceSettingsProps {
+  onClose: () => void;
+}
+
+const DEVICE_KINDS: { kind: MediaDeviceKind; label: string; fallback: string }[] = [
+  { kind: 'audioinput', label: 'Microphone', fallback: 'Microphone' },
+  { kind: 'videoinput', label: 'Camera', fallback: 'Camera' },
+  { kind: 'audiooutput', label: 'Speaker', fallback: 'Speaker' },
+];
+
+export default function DeviceSettings({ onClose }: DeviceSettingsProps) {
+  const { callType, devices, selectedDevices, selectDevice } = useCall();
+
+  // Chrome supports picking the output device; Firefox and Safari may not
+  const canSelectOutput =
+    typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+
+  const handleChange = async (kind: MediaDeviceKind, deviceId: string) => {
+    try {
+      await selectDevice(kind, deviceId || null);
+    } catch (error) {
+      console.error('Error selecting device:', error);
+      alert('Could not switch to that device. It may be in use by another application.');
+    }
+  };
+
+  return (
+    <div className="absolute bottom-24 left-1/2 transform -translate-x-1/2 w-80 bg-gray-800 rounded-xl shadow-2xl border border-gray-700 p-4 z-10">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-semibold">Devices</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" title="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        {DEVICE_KINDS.filter(({ kind }) =>
+          (kind !== 'videoinput' || callType === 'video') &&
+          (kind !== 'audiooutput' || canSelectOutput)
+        ).map(({ kind, label, fallback }) => (
+          <label key={kind} className="block">
+            <span className="block text-sm text-gray-400 mb-1">{label}</span>
+            <select
+              value={selectedDevices[kind] || ''}
+              onChange={(e) => handleChange(kind, e.target.value)}
+              className="w-full bg-gray-700 text-white text-sm rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">System default</option>
+              {devices[kind].map((device, index) => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.label || `${fallback} ${index + 1}`}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { useCall } from '@/contexts/CallContext';
+import { downloadFile } from '@/lib/file-transfer';
+import { FileTransfer, FileTransferStatus } from '@/types';
+import { ArrowDown, ArrowUp, Download, X } from 'lucide-react';
+
+interface FileTransferPanelProps {
+  // Files dropped on the call or picked here, waiting for a recipient
+  pendingFiles: File[];
+  onPendingFilesChange: (files: File[]) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<FileTransferStatus, string> = {
+  sending: 'Sending',
+  receiving: 'Receiving',
+  verifying: 'Verifying checksum',
+  completed: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const formatSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+};
+
+const isActive = (transfer: FileTransfer): boolean =>
+  transfer.status === 'sending' || transfer.status === 'receiving' || transfer.status === 'verifying';
+
+export default function FileTransferPanel({ pendingFiles, onPendingFilesChange, onClose }: FileTransferPanelProps) {
+  const { participants, remoteStreams, fileTransfers, sendFile, cancelFileTransfer } = useCall();
+  const [recipientId, setRecipientId] = useState<string>('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const connectedParticipants = participants.filter(p => remoteStreams.has(p.uid));
+  const transfers = Array.from(fileTransfers.values()).reverse();
+
+  const getName = (userId: string): string =>
+    participants.find(p => p.uid === userId)?.displayName || 'Unknown';
+
+  const handleSend = () => {
+    const files = pendingFiles;
+    onPendingFilesChange([]);
+    files.forEach(file => {
+      sendFile(file, recipientId || null).catch((error: any) => {
+        alert(error.message || `Failed to send ${file.name}. Please try again.`);
+      });
+    });
+  };
+
+  const handlePick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onPendingFilesChange(Array.from(e.target.files || []));
+    e.target.value = '';
+  };
+
+  return (
+    <div className="absolute top-4 left-4 w-80 max-h-[70vh] overflow-y-auto bg-gray-800 bg-opacity-95 rounded-xl shadow-2xl border border-gray-700 p-4 z-10">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-semibold">Files</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" title="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {pendingFiles.length > 0 ? (
+        <div className="mb-4 space-y-2">
+          <p className="text-sm text-gray-300 truncate">
+            {pendingFiles.length === 1 ? pendingFiles[0].name : `${pendingFiles.length} files`}
+          </p>
+          <select
+            value={recipientId}
+            onChange={(e) => setRecipientId(e.target.value)}
+            className="w-full bg-gray-700 text-white text-sm rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Everyone</option>
+            {connectedParticipants.map(participant => (
+              <option key={participant.uid} value={participant.uid}>
+                {participant.displayName}
+              </option>
+            ))}
+          </select>
+          <div className="flex gap-2">
+            <button
+              onClick={handleSend}
+              disabled={connectedParticipants.length === 0}
+              className="flex-1 px-3 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 disabled:bg-gray-600 text-white text-sm font-semibold"
+            >
+              Send
+            </button>
+            <button
+              onClick={() => onPendingFilesChange([])}
+              className="px-3 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="mb-4 text-sm text-gray-400">
+          Drop files on the call or{' '}
+          <button onClick={() => inputRef.current?.click()} className="text-blue-300 hover:text-blue-200 underline">
+            choose files
+          </button>
+          . They go straight to the other participants and are never uploaded.
+          <input ref={inputRef} type="file" multiple onChange={handlePick} className="hidden" />
+        </p>
+      )}
+
+      <div className="space-y-3">
+        {transfers.map(transfer => {
+          const percent = transfer.size > 0 ? Math.round((transfer.bytesTransferred / transfer.size) * 100) : 100;
+          return (
+            <div key={transfer.id} className="bg-gray-700 rounded-lg p-3">
+              <div className="flex items-center gap-2">
+                {transfer.direction === 'outgoing' ? (
+                  <ArrowUp className="w-4 h-4 text-blue-300 shrink-0" />
+                ) : (
+                  <ArrowDown className="w-4 h-4 text-green-300 shrink-0" />
+                )}
+                <p className="flex-1 min-w-0 text-sm text-white truncate" title={transfer.name}>
+                  {transfer.name}
+                </p>
+                {isActive(transfer) && (
+                  <button
+                    onClick={() => cancelFileTransfer(transfer.id)}
+                    className="text-gray-400 hover:text-white"
+                    title="Cancel transfer"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+                {transfer.status === 'completed' && transfer.blob && (
+                  <button
+                    onClick={() => downloadFile(transfer.blob!, transfer.name)}
+                    className="text-gray-300 hover:text-white"
+                    title="Save file"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-gray-400 mt-1">
+                {transfer.direction === 'outgoing' ? 'To' : 'From'} {getName(transfer.peerId)} •{' '}
+                {formatSize(transfer.size)}
+              </p>
+              {isActive(transfer) && (
+                <div className="mt-2 h-1.5 bg-gray-600 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+                </div>
+              )}
+              <p
+                className={`text-xs mt-1 ${
+                  transfer.status === 'failed'
+                    ? 'text-red-400'
+                    : transfer.status === 'completed'
+                    ? 'text-green-400'
+                    : 'text-gray-400'
+                }`}
+              >
+                {transfer.status === 'failed' && transfer.error
+                  ? transfer.error
+                  : isActive(transfer) && transfer.status !== 'verifying'
+                  ? `${STATUS_LABELS[transfer.status]} • ${percent}%`
+                  : STATUS_LABELS[transfer.status]}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import React from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCall } from '@/contexts/CallContext';
+import { Crown, Lock, LockOpen, MicOff, UserX, X } from 'lucide-react';
+
+interface ParticipantsPanelProps {
+  onClose: () => void;
+}
+
+// Everyone in the call; the host also gets the moderation controls
+export default function ParticipantsPanel({ onClose }: ParticipantsPanelProps) {
+  const { user } = useAuth();
+  const {
+    participants,
+    participantStates,
+    remoteMediaState,
+    hostId,
+    isLocked,
+    muteParticipant,
+    removeParticipant,
+    lockCall,
+    makeHost,
+  } = useCall();
+
+  const isHost = !!user && hostId === user.uid;
+  const joined = participants.filter(p => participantStates[p.uid]?.state === 'joined');
+
+  // Host actions fail if someone else became host meanwhile; the rules have the last word
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error(fallback, error);
+      alert(error instanceof Error ? error.message : fallback);
+    }
+  };
+
+  const handleRemove = (uid: string, name: string) => {
+    if (!confirm(`Remove ${name} from the call? They won't be able to rejoin.`)) return;
+    run(() => removeParticipant(uid), 'Failed to remove participant. Please try again.');
+  };
+
+  const handleMakeHost = (uid: string, name: string) => {
+    if (!confirm(`Make ${name} the host? You will lose the host controls.`)) return;
+    run(() => makeHost(uid), 'Failed to hand over host. Please try again.');
+  };
+
+  return (
+    <div className="absolute bottom-24 left-1/2 transform -translate-x-1/2 w-80 bg-gray-800 rounded-xl shadow-2xl border border-gray-700 p-4 z-10">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-semibold">Participants ({joined.length + 1})</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" title="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {isHost && (
+        <button
+          onClick={() => run(() => lockCall(!isLocked), 'Failed to change the lock. Please try again.')}
+          className={`w-full mb-4 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold text-white ${
+            isLocked ? 'bg-yellow-600 hover:bg-yellow-700' : 'bg-gray-700 hover:bg-gray-600'
+          }`}
+        >
+          {isLocked ? <LockOpen className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+          {isLocked ? 'Unlock call' : 'Lock call to new joiners'}
+        </button>
+      )}
+
+      <div className="max-h-64 overflow-y-auto space-y-2">
+        {user && (
+          <div className="flex items-center gap-3 p-2">
+            <img src={user.photoURL} alt={user.displayName} className="w-8 h-8 rounded-full" />
+            <p className="flex-1 text-white text-sm truncate">{user.displayName} (you)</p>
+            {isHost && <Crown className="w-4 h-4 text-yellow-400" aria-label="Host" />}
+          </div>
+        )}
+
+        {joined.map(participant => {
+          const isMuted = !!remoteMediaState.get(participant.uid)?.isMuted;
+          return (
+            <div key={participant.uid} className="flex items-center gap-3 p-2 rounded-lg hover:bg-gray-700">
+              <img src={participant.photoURL} alt={participant.displayName} className="w-8 h-8 rounded-full" />
+              <p className="flex-1 text-white text-sm truncate">{participant.displayName}</p>
+              {participant.uid === hostId && <Crown className="w-4 h-4 text-yellow-400" aria-label="Host" />}
+
+              {isHost && (
+                <>
+                  <button
+                    onClick={() => run(() => muteParticipant(participant.uid), 'Failed to mute. Please try again.')}
+                    disabled={isMuted}
+                    className="text-gray-400 hover:text-white disabled:opacity-30 disabled:hover:text-gray-400"
+                    title={isMuted ? 'Muted' : 'Ask to mute'}
+                  >
+                    <MicOff className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleMakeHost(participant.uid, participant.displayName)}
+                    className="text-gray-400 hover:text-yellow-400"
+                    title="Make host"
+                  >
+                    <Crown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleRemove(participant.uid, participant.displayName)}
+                    className="text-gray-400 hover:text-red-400"
+                    title="Remove from call"
+                  >
+                    <UserX className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
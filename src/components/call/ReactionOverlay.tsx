@@ -0,0 +1,55 @@
+'use client';
+
+import React from 'react';
+import { REACTION_DISPLAY_MS } from '@/lib/reactions';
+import { Reaction } from '@/types';
+
+interface ReactionOverlayProps {
+  reactions: Reaction[];
+  className?: string;
+}
+
+// Emoji that drift up out of a tile; fill the nearest positioned parent
+export default function ReactionOverlay({ reactions, className = 'absolute inset-0' }: ReactionOverlayProps) {
+  if (reactions.length === 0) return null;
+
+  return (
+    <div className={`${className} pointer-events-none overflow-hidden`}>
+      {reactions.map((reaction, index) => (
+        <span
+          key={reaction.id}
+          className="reaction absolute bottom-4 text-4xl"
+          // Spread bursts sideways so they don't stack on top of each other
+          style={{ left: `${20 + ((index * 23) % 60)}%`, animationDuration: `${REACTION_DISPLAY_MS}ms` }}
+        >
+          {reaction.emoji}
+        </span>
+      ))}
+
+      <style jsx>{`
+        .reaction {
+          animation-name: float-up;
+          animation-timing-function: ease-out;
+          animation-fill-mode: forwards;
+        }
+        @keyframes float-up {
+          0% {
+            transform: translateY(0) scale(0.6);
+            opacity: 0;
+          }
+          10% {
+            transform: translateY(-10%) scale(1.1);
+            opacity: 1;
+          }
+          80% {
+            opacity: 1;
+          }
+          100% {
+            transform: translateY(-300%) scale(1);
+            opacity: 0;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
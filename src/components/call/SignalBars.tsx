@@ -0,0 +1,39 @@
+'use client';
+
+import React from 'react';
+import { PeerStats } from '@/types';
+
+interface SignalBarsProps {
+  quality: PeerStats['quality'];
+  className?: string;
+}
+
+const BAR_COLORS: Record<PeerStats['quality'], string> = {
+  0: 'bg-gray-500',
+  1: 'bg-red-500',
+  2: 'bg-yellow-400',
+  3: 'bg-green-400',
+  4: 'bg-green-400',
+};
+
+const QUALITY_LABELS: Record<PeerStats['quality'], string> = {
+  0: 'Measuring connection...',
+  1: 'Poor connection',
+  2: 'Fair connection',
+  3: 'Good connection',
+  4: 'Excellent connection',
+};
+
+export default function SignalBars({ quality, className = '' }: SignalBarsProps) {
+  return (
+    <div className={`flex items-end gap-0.5 h-4 ${className}`} title={QUALITY_LABELS[quality]}>
+      {[1, 2, 3, 4].map(level => (
+        <div
+          key={level}
+          className={`w-1 rounded-sm ${level <= quality ? BAR_COLORS[quality] : 'bg-gray-600'}`}
+          style={{ height: `${level * 25}%` }}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import React from 'react';
+import { Loader2, MicOff, VideoOff } from 'lucide-react';
+import { PeerStats, Reaction } from '@/types';
+import SignalBars from './SignalBars';
+import ReactionOverlay from './ReactionOverlay';
+
+interface VideoTileProps {
+  stream: MediaStream;
+  label?: string;
+  isReconnecting?: boolean;
+  // The sender switched their video off because the connection can't carry it
+  isVideoPaused?: boolean;
+  isSpeaking?: boolean;
+  // From the participant's published media state
+  isMuted?: boolean;
+  isVideoOff?: boolean;
+  // Shown in place of the video while the camera is off
+  avatarUrl?: string;
+  // Place in the raised-hands queue, starting at 1
+  handPosition?: number;
+  reactions?: Reaction[];
+  quality?: PeerStats['quality'];
+  // Screen shares are letterboxed instead of cropped
+  fit?: 'cover' | 'contain';
+  className?: string;
+}
+
+// Remote video tile - audio is played by the hidden <audio> elements in CallUI
+export default function VideoTile({
+  stream,
+  label,
+  isReconnecting = false,
+  isVideoPaused = false,
+  isSpeaking = false,
+  isMuted = false,
+  isVideoOff = false,
+  avatarUrl,
+  handPosition,
+  reactions = [],
+  quality,
+  fit = 'cover',
+  className = '',
+}: VideoTileProps) {
+  return (
+    <div className={`relative bg-gray-800 rounded-lg overflow-hidden ${isSpeaking ? 'ring-4 ring-green-500' : ''} ${className}`}>
+      <video
+        ref={(el) => {
+          if (el && el.srcObject !== stream) {
+            el.srcObject = stream;
+            el.play().catch(err => console.log('Video autoplay blocked:', err));
+          }
+        }}
+        autoPlay
+        muted
+        playsInline
+        className={`w-full h-full ${fit === 'contain' ? 'object-contain' : 'object-cover'}`}
+      />
+      {isVideoOff && (
+        <div className="absolute inset-0 bg-gray-800 flex items-center justify-center">
+          {avatarUrl ? (
+            <img src={avatarUrl} alt={label} className="w-24 h-24 max-w-[50%] max-h-[50%] rounded-full object-cover" />
+          ) : (
+            <VideoOff className="w-8 h-8 text-gray-400" />
+          )}
+        </div>
+      )}
+      {(label || isMuted) && (
+        <div className="absolute bottom-4 left-4 flex items-center gap-2 bg-black bg-opacity-60 px-3 py-1 rounded-full text-white text-sm font-medium">
+          {isMuted && <MicOff className="w-4 h-4 text-red-400" aria-label="Muted" />}
+          {label}
+        </div>
+      )}
+      {handPosition !== undefined && (
+        <div className="absolute top-3 left-3 bg-yellow-400 px-2 py-1 rounded-md text-gray-900 text-xs font-semibold">
+          ✋ {handPosition}
+        </div>
+      )}
+      {quality !== undefined && (
+        <div className="absolute top-3 right-3 bg-black bg-opacity-60 px-2 py-1 rounded-md">
+          <SignalBars quality={quality} />
+        </div>
+      )}
+      {isVideoPaused && !isVideoOff && !isReconnecting && (
+        <div className="absolute inset-0 bg-gray-800 flex flex-col items-center justify-center gap-2 text-gray-300">
+          <VideoOff className="w-8 h-8" />
+          <span className="text-sm font-medium">Video paused (weak connection)</span>
+        </div>
+      )}
+      <ReactionOverlay reactions={reactions} />
+      {isReconnecting && (
+        <div className="absolute inset-0 bg-black bg-opacity-60 flex flex-col items-center justify-center gap-2 text-white">
+          <Loader2 className="w-8 h-8 animate-spin" />
+          <span className="text-sm font-medium">Reconnecting...</span>
+        </div>
+      )}
+    </div>
+  );
+}
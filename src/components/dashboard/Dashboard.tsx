@@ -1,12 +1,33 @@
 'use client';
 
 import React, { useEffect, useState } from 'react';
-import { collection, query, where, onSnapshot } from 'firebase/firestore';
+import { useRouter } from 'next/navigation';
+import {
+  collection,
+  query,
+  where,
+  onSnapshot,
+  doc,
+  updateDoc,
+  Timestamp,
+  QueryConstraint,
+} from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { subscribeToOnlineUsers } from '@/lib/users';
+import { MAX_PARTICIPANTS } from '@/lib/calls';
+import { MAX_ROOM_NAME_LENGTH, MIN_ROOM_SIZE, createRoom } from '@/lib/rooms';
+import { getNextPhaseChange, subscribeToScheduledCalls } from '@/lib/schedule';
 import { useAuth } from '@/contexts/AuthContext';
 import { useCall } from '@/contexts/CallContext';
-import { User } from '@/types';
-import { Video, Phone, LogOut, Users } from 'lucide-react';
+import { ScheduledCall, User } from '@/types';
+import { Video, Phone, LogOut, Users, History, PhoneForwarded, DoorOpen, Loader2, CalendarPlus } from 'lucide-react';
+import RecentCalls from './RecentCalls';
+import ScheduleCallModal from './ScheduleCallModal';
+import UpcomingCalls from './UpcomingCalls';
+import ScheduledCallPrompt from './ScheduledCallPrompt';
+
+// setTimeout overflows past ~24.8 days, so far-off phase changes are re-checked daily
+const MAX_PHASE_TIMER_MS = 24 * 60 * 60 * 1000;
 
 export default function Dashboard() {
   const { user, signOut } = useAuth();
@@ -14,26 +35,77 @@ export default function Dashboard() {
   const [onlineUsers, setOnlineUsers] = useState<User[]>([]);
   const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
   const [showGroupCallModal, setShowGroupCallModal] = useState(false);
+  const [showRecents, setShowRecents] = useState(false);
+  const [showRoomModal, setShowRoomModal] = useState(false);
+  const [roomName, setRoomName] = useState('');
+  const [roomSize, setRoomSize] = useState(MAX_PARTICIPANTS);
+  const [isCreatingRoom, setIsCreatingRoom] = useState(false);
+  const [scheduledCalls, setScheduledCalls] = useState<ScheduledCall[] | null>(null);
+  // Opens the schedule modal; a call to reschedule, or null for a new one
+  const [scheduleTarget, setScheduleTarget] = useState<ScheduledCall | null | undefined>(undefined);
+  const [now, setNow] = useState(Date.now());
+  const router = useRouter();
+  const [unreadMissedCount, setUnreadMissedCount] = useState(0);
+
+  useEffect(() => {
+    if (!user) return;
+
+    return subscribeToOnlineUsers(user.uid, setOnlineUsers);
+  }, [user?.uid]);
 
   useEffect(() => {
     if (!user) return;
 
-    const usersRef = collection(db, 'users');
-    const q = query(usersRef, where('isOnline', '==', true));
-
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const users: User[] = [];
-      snapshot.forEach((doc) => {
-        const userData = doc.data() as User;
-        if (userData.uid !== user.uid) {
-          users.push(userData);
-        }
-      });
-      setOnlineUsers(users);
+    return subscribeToScheduledCalls(user.uid, setScheduledCalls);
+  }, [user?.uid]);
+
+  // Re-render when a scheduled call is about to start, starts or ends
+  useEffect(() => {
+    const next = getNextPhaseChange(scheduledCalls || [], now);
+    if (next === null) return;
+
+    const timeout = setTimeout(() => setNow(Date.now()), Math.min(next - Date.now(), MAX_PHASE_TIMER_MS));
+    return () => clearTimeout(timeout);
+  }, [scheduledCalls, now]);
+
+  // Count missed incoming calls since Recents was last opened
+  const recentsViewedAt = user?.recentsViewedAt?.toMillis();
+  useEffect(() => {
+    if (!user) return;
+
+    const constraints: QueryConstraint[] = [where('missedBy', 'array-contains', user.uid)];
+    if (user.recentsViewedAt) {
+      constraints.push(where('createdAt', '>', user.recentsViewedAt));
+    }
+
+    const unsubscribe = onSnapshot(query(collection(db, 'calls'), ...constraints), (snapshot) => {
+      setUnreadMissedCount(snapshot.size);
     });
 
     return () => unsubscribe();
-  }, [user]);
+  }, [user?.uid, recentsViewedAt]);
+
+  const openRecents = async () => {
+    setShowRecents(true);
+    if (!user) return;
+
+    try {
+      await updateDoc(doc(db, 'users', user.uid), { recentsViewedAt: Timestamp.now() });
+    } catch (error) {
+      console.error('Error marking recents as viewed:', error);
+    }
+  };
+
+  // Opt-in: ring through while in a call instead of answering busy
+  const toggleCallWaiting = async () => {
+    if (!user) return;
+
+    try {
+      await updateDoc(doc(db, 'users', user.uid), { callWaitingEnabled: !user.callWaitingEnabled });
+    } catch (error) {
+      console.error('Error updating call waiting:', error);
+    }
+  };
 
   const handleOneToOneCall = (receiverId: string, type: 'voice' | 'video') => {
     startCall([receiverId], type);
@@ -53,6 +125,20 @@ export default function Dashboard() {
     setSelectedUsers([]);
   };
 
+  const handleCreateRoom = async () => {
+    if (!user) return;
+
+    setIsCreatingRoom(true);
+    try {
+      const roomId = await createRoom(user, roomName, roomSize);
+      router.push(`/room/${roomId}`);
+    } catch (error: any) {
+      console.error('Error creating room:', error);
+      alert(error.message || 'Failed to create the room. Please try again.');
+      setIsCreatingRoom(false);
+    }
+  };
+
   const toggleUserSelection = (userId: string) => {
     setSelectedUsers(prev =>
       prev.includes(userId)
@@ -77,6 +163,19 @@ export default function Dashboard() {
             </div>
             
             <div className="flex items-center gap-4">
+              <button
+                onClick={openRecents}
+                className="relative flex items-center gap-2 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                <History className="w-5 h-5" />
+                Recents
+                {unreadMissedCount > 0 && (
+                  <span className="absolute -top-2 -right-2 min-w-[1.25rem] h-5 px-1 bg-red-500 text-white text-xs font-bold rounded-full flex items-center justify-center">
+                    {unreadMissedCount > 9 ? '9+' : unreadMissedCount}
+                  </span>
+                )}
+              </button>
+
               <button
                 onClick={() => setShowGroupCallModal(true)}
                 className="flex items-center gap-2 bg-purple-500 text-white px-4 py-2 rounded-lg hover:bg-purple-600 transition-colors"
@@ -84,6 +183,22 @@ export default function Dashboard() {
                 <Users className="w-5 h-5" />
                 Group Call
               </button>
+
+              <button
+                onClick={() => setScheduleTarget(null)}
+                className="flex items-center gap-2 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                <CalendarPlus className="w-5 h-5" />
+                Schedule
+              </button>
+
+              <button
+                onClick={() => setShowRoomModal(true)}
+                className="flex items-center gap-2 bg-indigo-500 text-white px-4 py-2 rounded-lg hover:bg-indigo-600 transition-colors"
+              >
+                <DoorOpen className="w-5 h-5" />
+                New Room
+              </button>
               
               <div className="flex items-center gap-3">
                 <img
@@ -97,6 +212,18 @@ export default function Dashboard() {
                 </div>
               </div>
               
+              <button
+                onClick={toggleCallWaiting}
+                className={`p-2 rounded-lg transition-colors ${
+                  user.callWaitingEnabled
+                    ? 'text-blue-600 bg-blue-50 hover:bg-blue-100'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+                title={`Call waiting: ${user.callWaitingEnabled ? 'on' : 'off'}`}
+              >
+                <PhoneForwarded className="w-5 h-5" />
+              </button>
+
               <button
                 onClick={signOut}
                 className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
@@ -111,6 +238,8 @@ export default function Dashboard() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <UpcomingCalls calls={scheduledCalls || []} now={now} onReschedule={setScheduleTarget} />
+
         <div className="mb-6">
           <h2 className="text-xl font-semibold text-gray-800 mb-2">
             Online Users ({onlineUsers.length})
@@ -138,7 +267,12 @@ export default function Dashboard() {
                       alt={onlineUser.displayName}
                       className="w-16 h-16 rounded-full"
                     />
-                    <div className="absolute bottom-0 right-0 w-4 h-4 bg-green-500 border-2 border-white rounded-full"></div>
+                    <div
+                      className={`absolute bottom-0 right-0 w-4 h-4 border-2 border-white rounded-full ${
+                        onlineUser.status === 'away' ? 'bg-yellow-400' : 'bg-green-500'
+                      }`}
+                      title={onlineUser.status === 'away' ? 'Away' : 'Online'}
+                    ></div>
                   </div>
                   
                   <div className="flex-1 min-w-0">
@@ -171,6 +305,85 @@ export default function Dashboard() {
         )}
       </main>
 
+      {showRecents && <RecentCalls onClose={() => setShowRecents(false)} />}
+
+      {scheduleTarget !== undefined && (
+        <ScheduleCallModal
+          scheduledCall={scheduleTarget ?? undefined}
+          onClose={() => setScheduleTarget(undefined)}
+        />
+      )}
+
+      <ScheduledCallPrompt calls={scheduledCalls} now={now} />
+
+      {/* New Room Modal */}
+      {showRoomModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl max-w-md w-full overflow-hidden">
+            <div className="p-6 border-b border-gray-200">
+              <div className="flex items-center justify-between">
+                <h2 className="text-2xl font-bold text-gray-800">New Room</h2>
+                <button
+                  onClick={() => {
+                    setShowRoomModal(false);
+                    setRoomName('');
+                  }}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+              <p className="text-gray-600 mt-2">
+                A room keeps its link, so anyone you share it with can drop in
+              </p>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div>
+                <label htmlFor="room-name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  id="room-name"
+                  type="text"
+                  value={roomName}
+                  onChange={(e) => setRoomName(e.target.value)}
+                  maxLength={MAX_ROOM_NAME_LENGTH}
+                  placeholder="Weekly sync"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="room-size" className="block text-sm font-medium text-gray-700 mb-1">
+                  Maximum people inside
+                </label>
+                <select
+                  id="room-size"
+                  value={roomSize}
+                  onChange={(e) => setRoomSize(Number(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {Array.from({ length: MAX_PARTICIPANTS - MIN_ROOM_SIZE + 1 }, (_, i) => MIN_ROOM_SIZE + i).map(size => (
+                    <option key={size} value={size}>{size}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="p-6 border-t border-gray-200">
+              <button
+                onClick={handleCreateRoom}
+                disabled={!roomName.trim() || isCreatingRoom}
+                className="w-full flex items-center justify-center gap-2 bg-indigo-500 text-white px-4 py-3 rounded-lg hover:bg-indigo-600 transition-colors font-medium disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                {isCreatingRoom ? <Loader2 className="w-5 h-5 animate-spin" /> : <DoorOpen className="w-5 h-5" />}
+                Create Room
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Group Call Modal */}
       {showGroupCallModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -0,0 +1,254 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  getDocs,
+  getDoc,
+  doc,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCall } from '@/contexts/CallContext';
+import { isMissedState } from '@/lib/ringing';
+import { Call, User } from '@/types';
+import { Phone, PhoneIncoming, PhoneOutgoing, PhoneMissed, Video, X } from 'lucide-react';
+
+const PAGE_SIZE = 20;
+
+type TypeFilter = 'all' | Call['type'];
+type StatusFilter = 'all' | 'ended' | 'missed';
+
+interface RecentCallsProps {
+  onClose: () => void;
+}
+
+const formatDuration = (call: Call): string | null => {
+  if (!call.startedAt || !call.endedAt) return null;
+
+  const seconds = Math.max(0, Math.round((call.endedAt.toMillis() - call.startedAt.toMillis()) / 1000));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = seconds % 60;
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${String(rest).padStart(2, '0')}`
+    : `${minutes}:${String(rest).padStart(2, '0')}`;
+};
+
+const formatWhen = (call: Call): string => {
+  const date = call.createdAt?.toDate?.();
+  if (!date) return '';
+
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+export default function RecentCalls({ onClose }: RecentCallsProps) {
+  const { user } = useAuth();
+  const { startCall } = useCall();
+  const [calls, setCalls] = useState<Call[]>([]);
+  const [users, setUsers] = useState<Map<string, User>>(new Map());
+  const [cursor, setCursor] = useState<QueryDocumentSnapshot<DocumentData> | null>(null);
+  const [hasMore, setHasMore] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+
+  const loadPage = useCallback(
+    async (after: QueryDocumentSnapshot<DocumentData> | null) => {
+      if (!user) return;
+
+      setLoading(true);
+      try {
+        // Filters run in Firestore so pages stay full; see firestore.indexes.json.
+        // Missed means missed by us, which a group call can be while others talk.
+        const constraints: QueryConstraint[] = [
+          statusFilter === 'missed'
+            ? where('missedBy', 'array-contains', user.uid)
+            : where('participants', 'array-contains', user.uid),
+        ];
+        if (typeFilter !== 'all') constraints.push(where('type', '==', typeFilter));
+        if (statusFilter === 'ended') constraints.push(where('status', '==', 'ended'));
+        constraints.push(orderBy('createdAt', 'desc'), limit(PAGE_SIZE));
+        if (after) constraints.push(startAfter(after));
+
+        const snapshot = await getDocs(query(collection(db, 'calls'), ...constraints));
+        const page = snapshot.docs.map(callDoc => ({ id: callDoc.id, ...callDoc.data() } as Call));
+
+        setCalls(prev => (after ? [...prev, ...page] : page));
+        setCursor(snapshot.docs[snapshot.docs.length - 1] || null);
+        setHasMore(snapshot.docs.length === PAGE_SIZE);
+      } catch (error) {
+        console.error('Error loading call history:', error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [user, typeFilter, statusFilter]
+  );
+
+  // Reload from the first page whenever a filter changes
+  useEffect(() => {
+    loadPage(null);
+  }, [loadPage]);
+
+  // Fetch profiles for participants we haven't seen yet
+  useEffect(() => {
+    const missing = Array.from(new Set(calls.flatMap(call => call.participants))).filter(
+      id => id !== user?.uid && !users.has(id)
+    );
+    if (missing.length === 0) return;
+
+    Promise.all(
+      missing.map(async (id) => {
+        const userDoc = await getDoc(doc(db, 'users', id));
+        return userDoc.exists() ? (userDoc.data() as User) : null;
+      })
+    )
+      .then((profiles) => {
+        setUsers(prev => {
+          const next = new Map(prev);
+          profiles.forEach(profile => profile && next.set(profile.uid, profile));
+          return next;
+        });
+      })
+      .catch(error => console.error('Error loading participants:', error));
+  }, [calls, user?.uid, users]);
+
+  if (!user) return null;
+
+  const handleCallBack = async (call: Call) => {
+    try {
+      await startCall(call.participants.filter(id => id !== user.uid), call.type);
+      onClose();
+    } catch (error) {
+      console.error('Error calling back:', error);
+      alert('Failed to start call. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-end z-40" onClick={onClose}>
+      <div
+        className="bg-white w-full max-w-md h-full flex flex-col shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-gray-800">Recents</h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="flex gap-2 mt-4">
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value as TypeFilter)}
+              className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700"
+            >
+              <option value="all">All types</option>
+              <option value="video">Video</option>
+              <option value="voice">Voice</option>
+            </select>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+              className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700"
+            >
+              <option value="all">All calls</option>
+              <option value="ended">Answered</option>
+              <option value="missed">Missed</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {calls.length === 0 && !loading ? (
+            <p className="text-center text-gray-500 py-12">No calls yet</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {calls.map((call) => {
+                const isOutgoing = call.callerId === user.uid;
+                // Our own invite went unanswered, or (calling out) nobody picked up
+                const isMissed = isOutgoing
+                  ? call.status === 'missed'
+                  : isMissedState(call.participantStates?.[user.uid]?.state);
+                const others = call.participants.filter(id => id !== user.uid);
+                const names = others.map(id => users.get(id)?.displayName || 'Unknown');
+                const duration = formatDuration(call);
+
+                const DirectionIcon = isMissed && !isOutgoing
+                  ? PhoneMissed
+                  : isOutgoing ? PhoneOutgoing : PhoneIncoming;
+
+                return (
+                  <li key={call.id} className="flex items-center gap-3 px-6 py-4 hover:bg-gray-50">
+                    <div className="flex -space-x-3 flex-shrink-0">
+                      {others.slice(0, 3).map(id => (
+                        <img
+                          key={id}
+                          src={users.get(id)?.photoURL || '/default-avatar.png'}
+                          alt={users.get(id)?.displayName || ''}
+                          className="w-10 h-10 rounded-full border-2 border-white"
+                        />
+                      ))}
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      <p className={`font-medium truncate ${isMissed && !isOutgoing ? 'text-red-600' : 'text-gray-800'}`}>
+                        {names.join(', ')}
+                      </p>
+                      <p className="flex items-center gap-1 text-xs text-gray-500">
+                        <DirectionIcon className="w-3 h-3" />
+                        {isOutgoing ? 'Outgoing' : isMissed ? 'Missed' : 'Incoming'}
+                        {isOutgoing && isMissed && ' • No answer'}
+                        {duration && ` • ${duration}`}
+                        {` • ${formatWhen(call)}`}
+                      </p>
+                    </div>
+
+                    <button
+                      onClick={() => handleCallBack(call)}
+                      className={`p-2 rounded-full text-white transition-colors ${
+                        call.type === 'video'
+                          ? 'bg-blue-500 hover:bg-blue-600'
+                          : 'bg-green-500 hover:bg-green-600'
+                      }`}
+                      title={`${call.type === 'video' ? 'Video' : 'Voice'} call back`}
+                    >
+                      {call.type === 'video' ? <Video className="w-4 h-4" /> : <Phone className="w-4 h-4" />}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {hasMore && calls.length > 0 && (
+            <div className="p-4 text-center">
+              <button
+                onClick={() => loadPage(cursor)}
+                disabled={loading}
+                className="text-sm font-medium text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+              >
+                {loading ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getAllUsers } from '@/lib/users';
+import { MAX_PARTICIPANTS } from '@/lib/calls';
+import { MAX_ROOM_NAME_LENGTH } from '@/lib/rooms';
+import { SCHEDULE_DURATIONS_MINUTES, rescheduleCall, scheduleCall } from '@/lib/schedule';
+import { ScheduledCall, User } from '@/types';
+import { CalendarPlus, Loader2 } from 'lucide-react';
+
+interface ScheduleCallModalProps {
+  // Reschedule this call instead of booking a new one
+  scheduledCall?: ScheduledCall;
+  onClose: () => void;
+}
+
+// `<input type="datetime-local">` wants local time without a zone
+const toLocalInputValue = (date: Date): string => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+const getDefaultStart = (): Date => {
+  const date = new Date();
+  date.setHours(date.getHours() + 1, 0, 0, 0);
+  return date;
+};
+
+export default function ScheduleCallModal({ scheduledCall, onClose }: ScheduleCallModalProps) {
+  const { user } = useAuth();
+  const [title, setTitle] = useState(scheduledCall?.title ?? '');
+  const [startAt, setStartAt] = useState(
+    toLocalInputValue(scheduledCall ? scheduledCall.startAt.toDate() : getDefaultStart())
+  );
+  const [duration, setDuration] = useState(
+    scheduledCall
+      ? Math.round((scheduledCall.endAt.toMillis() - scheduledCall.startAt.toMillis()) / 60000)
+      : 30
+  );
+  const [users, setUsers] = useState<User[]>([]);
+  const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Invitees can't change once booked; they're only picked for a new call
+  useEffect(() => {
+    if (!user || scheduledCall) return;
+
+    getAllUsers(user.uid)
+      .then(setUsers)
+      .catch(error => console.error('Error loading users:', error));
+  }, [user?.uid, scheduledCall]);
+
+  const maxInvitees = MAX_PARTICIPANTS - 1;
+
+  const toggleUserSelection = (userId: string) => {
+    setSelectedUsers(prev =>
+      prev.includes(userId)
+        ? prev.filter(id => id !== userId)
+        : prev.length < maxInvitees ? [...prev, userId] : prev
+    );
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    setIsSaving(true);
+    try {
+      if (scheduledCall) {
+        await rescheduleCall(scheduledCall.id, new Date(startAt), duration);
+      } else {
+        await scheduleCall(user, title, new Date(startAt), duration, selectedUsers);
+      }
+      onClose();
+    } catch (error: any) {
+      console.error('Error scheduling call:', error);
+      alert(error.message || 'Failed to schedule the call. Please try again.');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl max-w-2xl w-full max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-gray-800">
+              {scheduledCall ? 'Reschedule Call' : 'Schedule Call'}
+            </h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          {scheduledCall && (
+            <p className="text-gray-600 mt-2 truncate">{scheduledCall.title}</p>
+          )}
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {!scheduledCall && (
+            <div>
+              <label htmlFor="schedule-title" className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+              <input
+                id="schedule-title"
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                maxLength={MAX_ROOM_NAME_LENGTH}
+                placeholder="Project kickoff"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          )}
+
+          <div className="flex gap-4">
+            <div className="flex-1">
+              <label htmlFor="schedule-start" className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+              <input
+                id="schedule-start"
+                type="datetime-local"
+                value={startAt}
+                min={toLocalInputValue(new Date())}
+                onChange={(e) => setStartAt(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div className="w-40">
+              <label htmlFor="schedule-duration" className="block text-sm font-medium text-gray-700 mb-1">Duration</label>
+              <select
+                id="schedule-duration"
+                value={duration}
+                onChange={(e) => setDuration(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {SCHEDULE_DURATIONS_MINUTES.map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes} min</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {!scheduledCall && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">
+                Invite up to {maxInvitees} people (Selected: {selectedUsers.length}/{maxInvitees})
+              </p>
+              <div className="max-h-64 overflow-y-auto">
+                {users.map((candidate) => (
+                  <div
+                    key={candidate.uid}
+                    onClick={() => toggleUserSelection(candidate.uid)}
+                    className={`flex items-center gap-4 p-3 rounded-lg cursor-pointer mb-2 transition-colors ${
+                      selectedUsers.includes(candidate.uid)
+                        ? 'bg-blue-50 border-2 border-blue-500'
+                        : 'bg-gray-50 hover:bg-gray-100 border-2 border-transparent'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedUsers.includes(candidate.uid)}
+                      onChange={() => {}}
+                      className="w-5 h-5"
+                    />
+                    <img
+                      src={candidate.photoURL || '/default-avatar.png'}
+                      alt={candidate.displayName}
+                      className="w-10 h-10 rounded-full"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-semibold text-gray-800 truncate">{candidate.displayName}</h3>
+                      <p className="text-sm text-gray-500 truncate">{candidate.email}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-200">
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !startAt || (!scheduledCall && (!title.trim() || selectedUsers.length === 0))}
+            className="w-full flex items-center justify-center gap-2 bg-blue-500 text-white px-4 py-3 rounded-lg hover:bg-blue-600 transition-colors font-medium disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {isSaving ? <Loader2 className="w-5 h-5 animate-spin" /> : <CalendarPlus className="w-5 h-5" />}
+            {scheduledCall ? 'Save New Time' : 'Schedule'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatScheduledTime, getScheduledCallPhase } from '@/lib/schedule';
+import { ScheduledCall } from '@/types';
+import { Bell, CalendarDays, Video, X } from 'lucide-react';
+
+interface ScheduledCallPromptProps {
+  calls: ScheduledCall[] | null; // null until the first snapshot
+  now: number;
+}
+
+interface ScheduleNotice {
+  key: string;
+  call: ScheduledCall;
+  kind: 'invited' | 'rescheduled' | 'cancelled';
+}
+
+const NOTICE_TEXT: Record<ScheduleNotice['kind'], string> = {
+  invited: 'invited you to',
+  rescheduled: 'moved',
+  cancelled: 'cancelled',
+};
+
+/**
+ * Corner cards for scheduled calls: a reminder shortly before one starts, a
+ * prompt to join once it has, and a note when someone else invites us,
+ * reschedules or cancels. Changes are only announced if they happen while
+ * the dashboard is open; the Upcoming Calls list shows the result either way.
+ */
+export default function ScheduledCallPrompt({ calls, now }: ScheduledCallPromptProps) {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [notices, setNotices] = useState<ScheduleNotice[]>([]);
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const seenSequences = useRef<Map<string, number> | null>(null);
+
+  useEffect(() => {
+    if (!calls || !user) return;
+
+    const seen = seenSequences.current;
+    seenSequences.current = new Map(calls.map(call => [call.id, call.sequence]));
+    // The first snapshot is what was already there, not news
+    if (!seen) return;
+
+    const added: ScheduleNotice[] = [];
+    calls.forEach(call => {
+      if (call.organizerId === user.uid) return;
+
+      const previous = seen.get(call.id);
+      if (previous === undefined) {
+        if (call.status === 'scheduled') {
+          added.push({ key: `${call.id}:${call.sequence}`, call, kind: 'invited' });
+        }
+      } else if (call.sequence > previous) {
+        const kind = call.status === 'cancelled' ? 'cancelled' : 'rescheduled';
+        added.push({ key: `${call.id}:${call.sequence}`, call, kind });
+      }
+    });
+    if (added.length > 0) {
+      setNotices(prev => [
+        ...prev.filter(notice => !added.some(next => next.call.id === notice.call.id)),
+        ...added,
+      ]);
+    }
+  }, [calls, user?.uid]);
+
+  const dismiss = (key: string) => {
+    setDismissed(prev => new Set(prev).add(key));
+  };
+
+  // One reminder per phase, so dismissing "starts soon" still prompts at start time
+  const reminders = (calls || [])
+    .map(call => ({ call, phase: getScheduledCallPhase(call, now) }))
+    .filter(({ phase }) => phase === 'starting-soon' || phase === 'live')
+    .map(({ call, phase }) => ({ call, phase, key: `${call.id}:${phase}:${call.sequence}` }))
+    .filter(({ key }) => !dismissed.has(key));
+  const visibleNotices = notices.filter(notice => !dismissed.has(notice.key));
+
+  if (reminders.length === 0 && visibleNotices.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 w-96 max-w-[calc(100vw-2rem)] space-y-3 z-40">
+      {visibleNotices.map(({ key, call, kind }) => (
+        <div key={key} className="bg-white rounded-xl shadow-lg border border-gray-200 p-4 flex gap-3">
+          <CalendarDays className={`w-5 h-5 mt-0.5 ${kind === 'cancelled' ? 'text-red-500' : 'text-blue-500'}`} />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-gray-800">
+              <span className="font-semibold">{call.organizerName}</span> {NOTICE_TEXT[kind]}{' '}
+              <span className="font-semibold">{call.title}</span>
+            </p>
+            <p className="text-xs text-gray-500 mt-1">{formatScheduledTime(call)}</p>
+          </div>
+          <button onClick={() => dismiss(key)} className="text-gray-400 hover:text-gray-600" title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      {reminders.map(({ call, phase, key }) => {
+        const startTime = call.startAt.toDate().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+        return (
+          <div key={key} className="bg-white rounded-xl shadow-lg border-2 border-blue-500 p-4">
+            <div className="flex gap-3">
+              <Bell className="w-5 h-5 mt-0.5 text-blue-500" />
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold text-gray-800 truncate">{call.title}</p>
+                <p className="text-sm text-gray-500">
+                  {phase === 'live' ? 'Starting now' : `Starts at ${startTime}`}
+                </p>
+              </div>
+              <button onClick={() => dismiss(key)} className="text-gray-400 hover:text-gray-600" title="Dismiss">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <button
+              onClick={() => {
+                dismiss(key);
+                router.push(`/room/${call.roomId}`);
+              }}
+              className="mt-3 w-full flex items-center justify-center gap-2 bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors text-sm font-medium"
+            >
+              <Video className="w-4 h-4" />
+              Join
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { cancelScheduledCall, downloadIcs, formatScheduledTime, getScheduledCallPhase } from '@/lib/schedule';
+import { ScheduledCall } from '@/types';
+import { CalendarClock, CalendarDays, Download, Video, XCircle } from 'lucide-react';
+
+interface UpcomingCallsProps {
+  calls: ScheduledCall[];
+  now: number;
+  onReschedule: (call: ScheduledCall) => void;
+}
+
+// Scheduled calls we're invited to or organized, until they're over
+export default function UpcomingCalls({ calls, now, onReschedule }: UpcomingCallsProps) {
+  const { user } = useAuth();
+  const router = useRouter();
+
+  const visible = calls.filter(call => getScheduledCallPhase(call, now) !== 'over');
+  if (visible.length === 0) return null;
+
+  const handleCancel = async (call: ScheduledCall) => {
+    if (!confirm(`Cancel "${call.title}" for everyone invited?`)) return;
+
+    try {
+      await cancelScheduledCall(call.id);
+    } catch (error: any) {
+      console.error('Error cancelling scheduled call:', error);
+      alert(error.message || 'Failed to cancel the call. Please try again.');
+    }
+  };
+
+  return (
+    <section className="mb-8">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4">Upcoming Calls</h2>
+      <div className="space-y-3">
+        {visible.map((call) => {
+          const phase = getScheduledCallPhase(call, now);
+          const isOrganizer = call.organizerId === user?.uid;
+          const isCancelled = phase === 'cancelled';
+
+          return (
+            <div
+              key={call.id}
+              className={`bg-white rounded-xl shadow-sm p-4 flex items-center gap-4 ${isCancelled ? 'opacity-60' : ''}`}
+            >
+              <div className={`p-3 rounded-lg ${phase === 'live' ? 'bg-green-100' : 'bg-blue-50'}`}>
+                <CalendarDays className={`w-6 h-6 ${phase === 'live' ? 'text-green-600' : 'text-blue-500'}`} />
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <h3 className={`font-semibold text-gray-800 truncate ${isCancelled ? 'line-through' : ''}`}>
+                    {call.title}
+                  </h3>
+                  {isCancelled && (
+                    <span className="text-xs font-semibold text-red-600 bg-red-50 px-2 py-0.5 rounded-full">Cancelled</span>
+                  )}
+                  {!isCancelled && call.sequence > 0 && (
+                    <span className="text-xs font-semibold text-yellow-700 bg-yellow-50 px-2 py-0.5 rounded-full">Rescheduled</span>
+                  )}
+                  {phase === 'live' && (
+                    <span className="text-xs font-semibold text-green-700 bg-green-50 px-2 py-0.5 rounded-full">Now</span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-500 truncate">
+                  {formatScheduledTime(call)} · {isOrganizer ? 'You organized' : `From ${call.organizerName}`} ·{' '}
+                  {call.participants.length} people
+                </p>
+              </div>
+
+              {(phase === 'live' || phase === 'starting-soon') && (
+                <button
+                  onClick={() => router.push(`/room/${call.roomId}`)}
+                  className="flex items-center gap-2 bg-blue-500 text-white px-3 py-2 rounded-lg hover:bg-blue-600 transition-colors text-sm font-medium"
+                >
+                  <Video className="w-4 h-4" />
+                  Join
+                </button>
+              )}
+              <button
+                onClick={() => downloadIcs(call)}
+                className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Download calendar file (.ics)"
+              >
+                <Download className="w-5 h-5" />
+              </button>
+              {isOrganizer && !isCancelled && (
+                <>
+                  <button
+                    onClick={() => onReschedule(call)}
+                    className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                    title="Reschedule"
+                  >
+                    <CalendarClock className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => handleCancel(call)}
+                    className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Cancel call"
+                  >
+                    <XCircle className="w-5 h-5" />
+                  </button>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,203 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useCall } from '@/contexts/CallContext';
+import { getRoomUrl, subscribeToRoom, subscribeToRoomOccupants } from '@/lib/rooms';
+import { Room, User } from '@/types';
+import { ArrowLeft, Check, Link as LinkIcon, Loader2, Mic, MicOff, Video, VideoOff } from 'lucide-react';
+
+interface RoomLobbyProps {
+  roomId: string;
+}
+
+// Pre-join screen for a meeting room: who's inside, a camera preview, and the mic/camera choice
+export default function RoomLobby({ roomId }: RoomLobbyProps) {
+  const { isInCall, selectedDevices, joinRoom } = useCall();
+  const [room, setRoom] = useState<Room | null | undefined>(undefined);
+  const [occupants, setOccupants] = useState<User[]>([]);
+  const [isMuted, setIsMuted] = useState(false);
+  const [isVideoOff, setIsVideoOff] = useState(false);
+  const [isJoining, setIsJoining] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const previewRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    return subscribeToRoom(roomId, setRoom, (error) => {
+      console.error('Error loading room:', error);
+      setRoom(null);
+    });
+  }, [roomId]);
+
+  const activeCallId = room?.activeCallId;
+  useEffect(() => {
+    if (!activeCallId) {
+      setOccupants([]);
+      return;
+    }
+
+    return subscribeToRoomOccupants(activeCallId, setOccupants);
+  }, [activeCallId]);
+
+  // Camera preview; released while we're in the call so the call can have the camera
+  const showPreview = !!room && !isInCall && !isJoining && !isVideoOff;
+  useEffect(() => {
+    if (!showPreview) return;
+
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setPreviewError(null);
+
+    navigator.mediaDevices
+      .getUserMedia({
+        video: selectedDevices.videoinput ? { deviceId: { exact: selectedDevices.videoinput } } : true,
+      })
+      .then((previewStream) => {
+        if (cancelled) {
+          previewStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = previewStream;
+        if (previewRef.current) {
+          previewRef.current.srcObject = previewStream;
+        }
+      })
+      .catch((error) => {
+        console.error('Error starting camera preview:', error);
+        setPreviewError('Camera unavailable');
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [showPreview, selectedDevices.videoinput]);
+
+  const handleJoin = async () => {
+    setIsJoining(true);
+    try {
+      await joinRoom(roomId, { isMuted, isVideoOff });
+    } catch (error: any) {
+      console.error('Error joining room:', error);
+      alert(error.message || 'Failed to join the room. Please try again.');
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(getRoomUrl(roomId));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying room link:', error);
+    }
+  };
+
+  if (room === undefined) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Loader2 className="w-10 h-10 text-blue-500 animate-spin" />
+      </div>
+    );
+  }
+
+  if (room === null) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-gray-50 gap-4">
+        <p className="text-gray-700 text-lg">This room doesn&apos;t exist.</p>
+        <Link href="/" className="text-blue-600 hover:underline">Back to WebCall</Link>
+      </div>
+    );
+  }
+
+  const isFull = occupants.length >= room.maxParticipants;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/" className="inline-flex items-center gap-2 text-gray-600 hover:text-gray-800 mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Link>
+
+        <div className="bg-white rounded-2xl shadow-sm overflow-hidden md:flex">
+          <div className="md:w-3/5 bg-gray-900 aspect-video relative flex items-center justify-center">
+            {isVideoOff || previewError ? (
+              <div className="text-gray-400 flex flex-col items-center gap-2">
+                <VideoOff className="w-10 h-10" />
+                <p className="text-sm">{previewError || 'Camera is off'}</p>
+              </div>
+            ) : (
+              <video ref={previewRef} autoPlay playsInline muted className="w-full h-full object-cover scale-x-[-1]" />
+            )}
+
+            <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 flex gap-3">
+              <button
+                onClick={() => setIsMuted(prev => !prev)}
+                className={`p-3 rounded-full transition-colors ${
+                  isMuted ? 'bg-red-500 hover:bg-red-600' : 'bg-gray-700 hover:bg-gray-600'
+                }`}
+                title={isMuted ? 'Join unmuted' : 'Join muted'}
+              >
+                {isMuted ? <MicOff className="w-5 h-5 text-white" /> : <Mic className="w-5 h-5 text-white" />}
+              </button>
+              <button
+                onClick={() => setIsVideoOff(prev => !prev)}
+                className={`p-3 rounded-full transition-colors ${
+                  isVideoOff ? 'bg-red-500 hover:bg-red-600' : 'bg-gray-700 hover:bg-gray-600'
+                }`}
+                title={isVideoOff ? 'Join with camera on' : 'Join with camera off'}
+              >
+                {isVideoOff ? <VideoOff className="w-5 h-5 text-white" /> : <Video className="w-5 h-5 text-white" />}
+              </button>
+            </div>
+          </div>
+
+          <div className="md:w-2/5 p-6 flex flex-col">
+            <h1 className="text-2xl font-bold text-gray-800 break-words">{room.name}</h1>
+            <p className="text-sm text-gray-500 mt-1">Hosted by {room.ownerName}</p>
+
+            <div className="mt-6 flex-1">
+              <p className="text-sm font-medium text-gray-700 mb-3">
+                {occupants.length === 0
+                  ? 'Nobody is here yet'
+                  : `${occupants.length}/${room.maxParticipants} inside`}
+              </p>
+              <div className="space-y-2">
+                {occupants.map(occupant => (
+                  <div key={occupant.uid} className="flex items-center gap-3">
+                    <img
+                      src={occupant.photoURL || '/default-avatar.png'}
+                      alt={occupant.displayName}
+                      className="w-8 h-8 rounded-full"
+                    />
+                    <p className="text-sm text-gray-800 truncate">{occupant.displayName}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <button
+              onClick={handleJoin}
+              disabled={isJoining || isInCall || isFull}
+              className="mt-6 flex items-center justify-center gap-2 bg-blue-500 text-white px-4 py-3 rounded-lg hover:bg-blue-600 transition-colors font-medium disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              {isJoining && <Loader2 className="w-5 h-5 animate-spin" />}
+              {isFull ? 'Room is full' : isInCall ? 'Already in a call' : 'Join now'}
+            </button>
+            <button
+              onClick={copyLink}
+              className="mt-3 flex items-center justify-center gap-2 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors text-sm"
+            >
+              {copied ? <Check className="w-4 h-4" /> : <LinkIcon className="w-4 h-4" />}
+              {copied ? 'Link copied' : 'Copy room link'}
+            </button>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
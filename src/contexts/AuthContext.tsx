@@ -1,6 +1,6 @@
 'use client';
 
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
 import {
   signInWithPopup,
   GoogleAuthProvider,
@@ -8,8 +8,9 @@ import {
   onAuthStateChanged,
   User as FirebaseUser,
 } from 'firebase/auth';
-import { doc, setDoc, updateDoc, onSnapshot, Timestamp } from 'firebase/firestore';
+import { doc, setDoc, onSnapshot, Timestamp } from 'firebase/firestore';
 import { auth, db } from '@/lib/firebase';
+import { PresenceManager } from '@/lib/presence';
 import { User } from '@/types';
 
 interface AuthContextType {
@@ -34,10 +35,22 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [user, setUser] = useState<User | null>(null);
   const [firebaseUser, setFirebaseUser] = useState<FirebaseUser | null>(null);
   const [loading, setLoading] = useState(true);
+  const presenceRef = useRef<PresenceManager | null>(null);
 
   useEffect(() => {
+    // Per signed-in user; torn down when they sign out or the provider unmounts
+    let unsubscribeUser: (() => void) | null = null;
+
+    const stopUserSession = () => {
+      unsubscribeUser?.();
+      unsubscribeUser = null;
+      presenceRef.current?.stop();
+      presenceRef.current = null;
+    };
+
     const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
       setFirebaseUser(firebaseUser);
+      stopUserSession();
 
       if (firebaseUser) {
         // Create or update user document
@@ -56,35 +69,27 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         );
 
         // Listen to user document for real-time updates
-        const unsubscribeUser = onSnapshot(userRef, (doc) => {
+        unsubscribeUser = onSnapshot(userRef, (doc) => {
           if (doc.exists()) {
             setUser(doc.data() as User);
           }
         });
 
-        // Update online status when user leaves
-        const updateOfflineStatus = async () => {
-          await updateDoc(userRef, {
-            isOnline: false,
-            lastSeen: Timestamp.now(),
-          });
-        };
-
-        window.addEventListener('beforeunload', updateOfflineStatus);
+        // Heartbeats keep us online; a closed or crashed tab simply stops sending them
+        presenceRef.current = new PresenceManager(firebaseUser.uid);
+        presenceRef.current.start();
 
         setLoading(false);
-
-        return () => {
-          unsubscribeUser();
-          window.removeEventListener('beforeunload', updateOfflineStatus);
-        };
       } else {
         setUser(null);
         setLoading(false);
       }
     });
 
-    return () => unsubscribe();
+    return () => {
+      unsubscribe();
+      stopUserSession();
+    };
   }, []);
 
   const signInWithGoogle = async () => {
@@ -99,13 +104,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const signOut = async () => {
     try {
-      if (firebaseUser) {
-        const userRef = doc(db, 'users', firebaseUser.uid);
-        await updateDoc(userRef, {
-          isOnline: false,
-          lastSeen: Timestamp.now(),
-        });
-      }
+      // Go offline while we can still write as this user
+      await presenceRef.current?.stop(true);
       await firebaseSignOut(auth);
     } catch (error) {
       console.error('Error signing out:', error);
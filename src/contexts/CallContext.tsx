@@ -1,31 +1,92 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import {
   collection,
   doc,
   setDoc,
-  updateDoc,
   onSnapshot,
   query,
   where,
   Timestamp,
   deleteDoc,
   getDoc,
+  FirestoreError,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import { WebRTCService } from '@/lib/webrtc';
+import { WebRTCService, isParticipantMediaState } from '@/lib/webrtc';
+import { getPayloadField } from '@/lib/signaling';
+import { DeviceManager, EMPTY_DEVICE_LISTS, EMPTY_DEVICE_SELECTION } from '@/lib/devices';
+import { ActiveSpeakerDetector } from '@/lib/speaker';
+import { CallRecorder, RecordingSource, downloadRecording } from '@/lib/recorder';
+import { saveChatTranscript } from '@/lib/chat';
+import { isReactionEmoji, REACTION_DISPLAY_MS, ReactionRateLimiter } from '@/lib/reactions';
+import { joinRoomCall } from '@/lib/rooms';
+import {
+  MAX_PARTICIPANTS,
+  addParticipants as addCallParticipants,
+  clearMuteRequest,
+  createParticipantStates,
+  endCallForAll as endCallForAllParticipants,
+  expirePendingInvites,
+  getHostId,
+  removeParticipant as removeCallParticipant,
+  requestMute,
+  setCallLocked,
+  setRecording,
+  transferHost,
+  updateParticipantState,
+} from '@/lib/calls';
+import { getRingDeadline, isInviteExpired, isPendingState } from '@/lib/ringing';
 import { useAuth } from './AuthContext';
-import { Call, User, CallState } from '@/types';
+import {
+  Call,
+  ChatMessage,
+  User,
+  CallState,
+  DeviceLists,
+  DeviceSelection,
+} from '@/types';
 
 interface CallContextType extends CallState {
   startCall: (receiverIds: string[], type: 'voice' | 'video') => Promise<void>;
   answerCall: (callId: string) => Promise<void>;
-  endCall: () => Promise<void>;
+  // Enter a meeting room by id, with the mic and camera as chosen on the pre-join screen
+  joinRoom: (roomId: string, media: { isMuted: boolean; isVideoOff: boolean }) => Promise<void>;
+  leaveCall: () => Promise<void>;
+  addParticipants: (userIds: string[]) => Promise<void>;
+  endCallForAll: () => Promise<void>;
   declineCall: () => Promise<void>;
+  // Host only - the call document rules reject these from anyone else
+  muteParticipant: (userId: string) => Promise<void>;
+  removeParticipant: (userId: string) => Promise<void>;
+  lockCall: (locked: boolean) => Promise<void>;
+  makeHost: (userId: string) => Promise<void>;
   toggleMute: () => void;
   toggleVideo: () => void;
+  startScreenShare: () => Promise<void>;
+  stopScreenShare: () => Promise<void>;
+  startRecording: () => Promise<void>;
+  stopRecording: () => Promise<void>;
+  sendChatMessage: (text: string) => void;
+  // Sends straight to one participant, or to everyone when userId is null
+  sendFile: (file: File, userId: string | null) => Promise<void>;
+  cancelFileTransfer: (transferId: string) => void;
+  sendReaction: (emoji: string) => Promise<void>;
+  setHandRaised: (raised: boolean, userId?: string) => Promise<void>;
+  // Save the chat to the call document's messages subcollection when we leave
+  saveChatOnEnd: boolean;
+  setSaveChatOnEnd: (save: boolean) => void;
+  devices: DeviceLists;
+  selectedDevices: DeviceSelection;
+  selectDevice: (kind: MediaDeviceKind, deviceId: string | null) => Promise<void>;
   incomingCall: Call | null;
+  // Call waiting: a call ringing while we're in another one, and a call we put on hold
+  waitingCall: Call | null;
+  heldCall: Call | null;
+  acceptWaitingCall: (current: 'hold' | 'end') => Promise<void>;
+  declineWaitingCall: () => Promise<void>;
+  swapHeldCall: () => Promise<void>;
 }
 
 const CallContext = createContext<CallContextType | undefined>(undefined);
@@ -38,62 +99,368 @@ export const useCall = () => {
   return context;
 };
 
-const MAX_PARTICIPANTS = 5;
+// How long the caller sees "Busy" before a rejected call is torn down
+const BUSY_DISPLAY_MS = 3000;
+
+const createInitialCallState = (): CallState => ({
+  callId: null,
+  roomId: null,
+  hostId: null,
+  isLocked: false,
+  mutedByHost: false,
+  isInCall: false,
+  isCalling: false,
+  isReceivingCall: false,
+  callType: null,
+  localStream: null,
+  remoteStreams: new Map(),
+  peerStatus: new Map(),
+  participants: [],
+  participantStates: {},
+  isMuted: false,
+  isVideoOff: false,
+  isScreenSharing: false,
+  screenStream: null,
+  remoteMediaState: new Map(),
+  peerStats: new Map(),
+  iceCandidateStats: new Map(),
+  sendingAudioOnly: new Set(),
+  receivingAudioOnly: new Set(),
+  activeSpeakerId: null,
+  recordingBy: [],
+  isRecording: false,
+  chatMessages: [],
+  fileTransfers: new Map(),
+  reactions: [],
+  raisedHands: new Map(),
+});
+
+// The devices a stream is actually using, which may differ from the preferred ones
+const getStreamDevices = (stream: MediaStream): Partial<DeviceSelection> => ({
+  audioinput: stream.getAudioTracks()[0]?.getSettings().deviceId || null,
+  videoinput: stream.getVideoTracks()[0]?.getSettings().deviceId || null,
+});
 
 export const CallProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user } = useAuth();
   const [webRTCService, setWebRTCService] = useState<WebRTCService | null>(null);
-  const [callState, setCallState] = useState<CallState>({
+  const [callState, setCallState] = useState<CallState>(createInitialCallState);
+  const [incomingCall, setIncomingCall] = useState<Call | null>(null);
+  const [waitingCall, setWaitingCall] = useState<Call | null>(null);
+  const [heldCall, setHeldCall] = useState<Call | null>(null);
+  // Set while moving between calls, so the held call isn't auto-resumed halfway
+  const [isSwitchingCalls, setIsSwitchingCalls] = useState(false);
+  const [deviceManager] = useState(() => new DeviceManager());
+  const [devices, setDevices] = useState<DeviceLists>(EMPTY_DEVICE_LISTS);
+  const [selectedDevices, setSelectedDevices] = useState<DeviceSelection>(EMPTY_DEVICE_SELECTION);
+  const recordingRef = useRef<{ recorder: CallRecorder; startedAt: Date } | null>(null);
+  const [saveChatOnEnd, setSaveChatOnEnd] = useState(false);
+  // What teardown needs to save the chat, without re-creating every callback on each message
+  const chatRef = useRef<{ callId: string | null; messages: ChatMessage[]; save: boolean }>({
     callId: null,
-    isInCall: false,
-    isCalling: false,
-    isReceivingCall: false,
-    callType: null,
-    localStream: null,
-    remoteStreams: new Map(),
-    participants: [],
-    isMuted: false,
-    isVideoOff: false,
+    messages: [],
+    save: false,
   });
-  const [incomingCall, setIncomingCall] = useState<Call | null>(null);
+  const [reactionLimiter] = useState(() => new ReactionRateLimiter());
+  const [speakerDetector] = useState(
+    () => new ActiveSpeakerDetector(activeSpeakerId => setCallState(prev => ({ ...prev, activeSpeakerId })))
+  );
+
+  // Floats an emoji over someone's tile, then lets it go
+  const showReaction = useCallback((userId: string, emoji: string) => {
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+    setCallState(prev => ({ ...prev, reactions: [...prev.reactions, { id, userId, emoji }] }));
+    setTimeout(() => {
+      setCallState(prev => ({ ...prev, reactions: prev.reactions.filter(reaction => reaction.id !== id) }));
+    }, REACTION_DISPLAY_MS);
+  }, []);
 
   // Initialize WebRTC service
   useEffect(() => {
     if (user) {
       const service = new WebRTCService(user.uid);
+
+      service.onRemoteStream((userId, stream) => {
+        setCallState(prev => {
+          const newRemoteStreams = new Map(prev.remoteStreams);
+          newRemoteStreams.set(userId, stream);
+          return { ...prev, remoteStreams: newRemoteStreams };
+        });
+      });
+
+      service.onPeerClosed((userId) => {
+        setCallState(prev => {
+          const newRemoteStreams = new Map(prev.remoteStreams);
+          const newPeerStatus = new Map(prev.peerStatus);
+          const newRemoteMediaState = new Map(prev.remoteMediaState);
+          const newSendingAudioOnly = new Set(prev.sendingAudioOnly);
+          const newReceivingAudioOnly = new Set(prev.receivingAudioOnly);
+          const newRaisedHands = new Map(prev.raisedHands);
+          newRemoteStreams.delete(userId);
+          newPeerStatus.delete(userId);
+          newRemoteMediaState.delete(userId);
+          newSendingAudioOnly.delete(userId);
+          newReceivingAudioOnly.delete(userId);
+          newRaisedHands.delete(userId);
+          return {
+            ...prev,
+            remoteStreams: newRemoteStreams,
+            peerStatus: newPeerStatus,
+            remoteMediaState: newRemoteMediaState,
+            sendingAudioOnly: newSendingAudioOnly,
+            receivingAudioOnly: newReceivingAudioOnly,
+            raisedHands: newRaisedHands,
+          };
+        });
+        reactionLimiter.forget(userId);
+      });
+
+      service.onPeerStatusChange((userId, status) => {
+        setCallState(prev => {
+          if (prev.peerStatus.get(userId) === status) return prev;
+          const newPeerStatus = new Map(prev.peerStatus);
+          newPeerStatus.set(userId, status);
+          return { ...prev, peerStatus: newPeerStatus };
+        });
+      });
+
+      service.onScreenShareChange((screenStream) => {
+        setCallState(prev => ({
+          ...prev,
+          isScreenSharing: screenStream !== null,
+          screenStream,
+        }));
+      });
+
+      service.onStats((peerStats) => {
+        setCallState(prev => ({ ...prev, peerStats, iceCandidateStats: service.getIceCandidateStats() }));
+      });
+
+      service.onAudioOnlyChange((userId, audioOnly) => {
+        setCallState(prev => {
+          const newSendingAudioOnly = new Set(prev.sendingAudioOnly);
+          if (audioOnly) {
+            newSendingAudioOnly.add(userId);
+          } else {
+            newSendingAudioOnly.delete(userId);
+          }
+          return { ...prev, sendingAudioOnly: newSendingAudioOnly };
+        });
+      });
+
+      service.onChatMessage((message) => {
+        setCallState(prev => ({ ...prev, chatMessages: [...prev.chatMessages, message] }));
+      });
+
+      service.onFileTransfer((transfer) => {
+        setCallState(prev => {
+          const newFileTransfers = new Map(prev.fileTransfers);
+          newFileTransfers.set(transfer.id, transfer);
+          return { ...prev, fileTransfers: newFileTransfers };
+        });
+      });
+
+      service.onControlMessage((message) => {
+        if (message.action === 'media-state' && isParticipantMediaState(message.payload)) {
+          const mediaState = message.payload;
+          setCallState(prev => {
+            const newRemoteMediaState = new Map(prev.remoteMediaState);
+            newRemoteMediaState.set(message.fromUserId, mediaState);
+            return { ...prev, remoteMediaState: newRemoteMediaState };
+          });
+        } else if (message.action === 'video-paused') {
+          const paused = getPayloadField(message.payload, 'paused') === true;
+          setCallState(prev => {
+            const newReceivingAudioOnly = new Set(prev.receivingAudioOnly);
+            if (paused) {
+              newReceivingAudioOnly.add(message.fromUserId);
+            } else {
+              newReceivingAudioOnly.delete(message.fromUserId);
+            }
+            return { ...prev, receivingAudioOnly: newReceivingAudioOnly };
+          });
+        } else if (message.action === 'reaction') {
+          const emoji = getPayloadField(message.payload, 'emoji');
+          if (isReactionEmoji(emoji) && reactionLimiter.allow(message.fromUserId)) {
+            showReaction(message.fromUserId, emoji);
+          }
+        } else if (message.action === 'hand') {
+          const userId = getPayloadField(message.payload, 'userId');
+          const raised = getPayloadField(message.payload, 'raised');
+          if (typeof userId !== 'string' || typeof raised !== 'boolean') return;
+
+          setCallState(prev => {
+            // People raise and lower their own hands; only the host can lower someone else's.
+            // fromUserId can be trusted here because every transport authenticates the
+            // sender (firestore.rules / the WebSocket server's ID token check)
+            if (userId !== message.fromUserId && (raised || !prev.hostId || prev.hostId !== message.fromUserId)) {
+              return prev;
+            }
+            if (!raised && !prev.raisedHands.has(userId)) return prev;
+            if (raised && prev.raisedHands.has(userId)) return prev;
+
+            const newRaisedHands = new Map(prev.raisedHands);
+            if (raised) {
+              newRaisedHands.set(userId, message.timestamp);
+            } else {
+              newRaisedHands.delete(userId);
+            }
+            return { ...prev, raisedHands: newRaisedHands };
+          });
+        }
+      });
+
       setWebRTCService(service);
 
       return () => {
-        service.cleanup();
+        service.dispose();
       };
     }
-  }, [user]);
+  }, [user?.uid]);
+
+  // Track available devices (headsets plugged in or out)
+  const refreshDevices = useCallback(async () => {
+    try {
+      setDevices(await deviceManager.listDevices());
+    } catch (error) {
+      console.error('Error listing devices:', error);
+    }
+  }, [deviceManager]);
 
-  // Handle browser close/refresh - end call properly
   useEffect(() => {
-    const handleBeforeUnload = async () => {
-      if (callState.callId) {
-        // Synchronously update Firestore before page unloads
-        try {
-          await updateDoc(doc(db, 'calls', callState.callId), {
-            status: 'ended',
-            endedAt: Timestamp.now(),
-          });
-        } catch (err) {
-          console.error('Error ending call on page unload:', err);
+    setSelectedDevices(deviceManager.getPreferred());
+    refreshDevices();
+    return deviceManager.onChange(setDevices);
+  }, [deviceManager, refreshDevices]);
+
+  // Labels are only visible once media permission is granted, so list again after getUserMedia
+  const onLocalStreamStarted = useCallback(
+    (localStream: MediaStream) => {
+      setSelectedDevices(prev => ({ ...prev, ...getStreamDevices(localStream) }));
+      refreshDevices();
+    },
+    [refreshDevices]
+  );
+
+  // Switch mic/camera mid-call, or pick the speaker used by CallUI's <audio> elements
+  const selectDevice = useCallback(
+    async (kind: MediaDeviceKind, deviceId: string | null) => {
+      deviceManager.setPreferred(kind, deviceId);
+
+      if (kind === 'audiooutput' || !webRTCService || !callState.localStream) {
+        setSelectedDevices(prev => ({ ...prev, [kind]: deviceId }));
+        return;
+      }
+
+      try {
+        const localStream = await webRTCService.switchInputDevice(kind, deviceId);
+        if (localStream) {
+          setCallState(prev => ({ ...prev, localStream }));
+          setSelectedDevices(prev => ({ ...prev, ...getStreamDevices(localStream) }));
+        }
+      } catch (error) {
+        console.error(`Error switching ${kind}:`, error);
+        throw error;
+      }
+    },
+    [deviceManager, webRTCService, callState.localStream]
+  );
+
+  // Fall back to the default device when the one in use is unplugged
+  useEffect(() => {
+    if (!webRTCService || !callState.localStream) return;
+
+    (['audioinput', 'videoinput'] as const).forEach(async (kind) => {
+      const selected = selectedDevices[kind];
+      const available = devices[kind];
+      if (!selected || available.length === 0 || available.some(device => device.deviceId === selected)) {
+        return;
+      }
+
+      try {
+        const localStream = await webRTCService.switchInputDevice(kind, null);
+        if (localStream) {
+          setCallState(prev => ({ ...prev, localStream }));
+          setSelectedDevices(prev => ({ ...prev, ...getStreamDevices(localStream) }));
         }
+      } catch (error) {
+        console.error(`Error falling back to default ${kind}:`, error);
+      }
+    });
+  }, [devices]);
+
+  // Follow who is talking - every remote stream plus our own microphone
+  useEffect(() => {
+    if (!user || !callState.isInCall) {
+      speakerDetector.stop();
+      return;
+    }
+
+    const streams = new Map(callState.remoteStreams);
+    if (callState.localStream) {
+      streams.set(user.uid, callState.localStream);
+    }
+    speakerDetector.setStreams(streams);
+  }, [speakerDetector, user?.uid, callState.isInCall, callState.localStream, callState.remoteStreams]);
+
+  useEffect(() => () => speakerDetector.stop(), [speakerDetector]);
+
+  // Everyone in the call, ourselves included, as the recorder should show them
+  const getRecordingSources = useCallback((): RecordingSource[] => {
+    const sources: RecordingSource[] = Array.from(callState.remoteStreams.entries()).map(([userId, stream]) => ({
+      id: userId,
+      label: callState.participants.find(p => p.uid === userId)?.displayName || 'Participant',
+      stream,
+    }));
+    if (user && callState.localStream) {
+      sources.push({ id: user.uid, label: user.displayName || 'Me', stream: callState.localStream });
+    }
+    return sources;
+  }, [user, callState.remoteStreams, callState.participants, callState.localStream]);
+
+  // Keep the recording in step with people joining and leaving
+  useEffect(() => {
+    recordingRef.current?.recorder.setSources(getRecordingSources());
+  }, [getRecordingSources]);
+
+  // Handle browser close/refresh - leave the call (and any held call) properly
+  useEffect(() => {
+    const handleBeforeUnload = async () => {
+      if (!user) return;
+
+      const callIds = [callState.callId, heldCall?.id].filter((id): id is string => !!id);
+      // Best effort: the page may unload before these writes land
+      try {
+        await Promise.all(callIds.map(callId => updateParticipantState(callId, user.uid, 'left')));
+      } catch (err) {
+        console.error('Error leaving call on page unload:', err);
       }
     };
 
     window.addEventListener('beforeunload', handleBeforeUnload);
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-  }, [callState.callId]);
+  }, [callState.callId, heldCall?.id, user?.uid]);
 
   // Listen for call status changes when in a call - auto disconnect if other user ends
   useEffect(() => {
     if (!callState.callId || !callState.isInCall) return;
 
-    const callRef = doc(db, 'calls', callState.callId);
+    // Profiles we already have (or are fetching) - people can be added mid-call
+    const knownParticipants = new Set(callState.participants.map(p => p.uid));
+
+    let busyTimeout: ReturnType<typeof setTimeout> | null = null;
+    let wasRemoved = false;
+
+    // The host removed us; we can't read the call any more, so this is the last we hear of it
+    const handleRemoved = () => {
+      if (wasRemoved) return;
+      wasRemoved = true;
+      handleRemoteDisconnect();
+      alert('The host removed you from the call.');
+    };
+
+    const callId = callState.callId;
+    const callRef = doc(db, 'calls', callId);
     const unsubscribe = onSnapshot(callRef, (snapshot) => {
       if (!snapshot.exists()) {
         // Call document was deleted
@@ -101,95 +468,258 @@ export const CallProvider: React.FC<{ children: React.ReactNode }> = ({ children
         return;
       }
 
-      const callData = snapshot.data();
-      if (callData?.status === 'ended' || callData?.status === 'missed') {
-        handleRemoteDisconnect();
+      const callData = snapshot.data() as Call;
+      const participantStates = callData.participantStates || {};
+      const removedParticipants = callData.removedParticipants || [];
+
+      if (user && removedParticipants.includes(user.uid)) {
+        handleRemoved();
+        return;
+      }
+
+      if (callData.status === 'ended' || callData.status === 'missed') {
+        // Let the caller see "Busy" for a moment instead of the call just vanishing
+        const wasBusy = callData.status === 'missed' &&
+          Object.values(participantStates).some(entry => entry.state === 'busy');
+        if (wasBusy && !busyTimeout) {
+          setCallState(prev => ({ ...prev, participantStates }));
+          busyTimeout = setTimeout(handleRemoteDisconnect, BUSY_DISPLAY_MS);
+        } else if (!wasBusy) {
+          handleRemoteDisconnect();
+        }
+        return;
+      }
+
+      // Backstop for the 'hangup' control message, which isn't sent when
+      // someone closes the tab: drop our connection to anyone who has left
+      Object.entries(participantStates).forEach(([userId, entry]) => {
+        if (userId !== user?.uid && (entry.state === 'left' || entry.state === 'held')) {
+          webRTCService?.closePeerConnection(userId);
+        }
+      });
+      removedParticipants.forEach(userId => webRTCService?.blockPeer(userId));
+
+      // The host asked us to mute: do it, then clear the request
+      if (user && callData.muteRequests?.[user.uid]) {
+        webRTCService?.toggleAudio(false);
+        setCallState(prev => ({ ...prev, isMuted: true, mutedByHost: true }));
+        clearMuteRequest(callId, user.uid).catch(error => {
+          console.error('Error clearing mute request:', error);
+        });
+      }
+
+      setCallState(prev => ({
+        ...prev,
+        participantStates,
+        hostId: getHostId(callData),
+        isLocked: !!callData.locked,
+        participants: prev.participants.filter(p => !removedParticipants.includes(p.uid)),
+        recordingBy: Object.keys(callData.recordingBy || {}),
+      }));
+
+      const addedIds = callData.participants.filter(
+        id => id !== user?.uid && !knownParticipants.has(id)
+      );
+      if (addedIds.length > 0) {
+        addedIds.forEach(id => knownParticipants.add(id));
+        Promise.all(
+          addedIds.map(async (id) => {
+            const userDoc = await getDoc(doc(db, 'users', id));
+            return userDoc.data() as User;
+          })
+        )
+          .then((added) => {
+            setCallState(prev => ({
+              ...prev,
+              participants: [
+                ...prev.participants,
+                ...added.filter(p => p && !prev.participants.some(existing => existing.uid === p.uid)),
+              ],
+            }));
+          })
+          .catch(error => console.error('Error loading added participants:', error));
+      }
+    }, (error) => {
+      // Losing read access mid-call means we were taken out of participants
+      if ((error as FirestoreError).code === 'permission-denied') {
+        handleRemoved();
+      } else {
+        console.error('Error listening to call:', error);
       }
     });
 
-    return () => unsubscribe();
-  }, [callState.callId, callState.isInCall]);
+    return () => {
+      unsubscribe();
+      if (busyTimeout) clearTimeout(busyTimeout);
+    };
+  }, [callState.callId, callState.isInCall, user?.uid, webRTCService]);
+
+  // Ring timeout for people we invited: once the earliest pending invite
+  // rings out, mark it timed out. With nobody answering the call becomes
+  // 'missed' and the listener above tears it down.
+  useEffect(() => {
+    if (!callState.callId || !callState.isInCall) return;
+
+    const deadlines = Object.values(callState.participantStates)
+      .filter(entry => isPendingState(entry.state))
+      .map(getRingDeadline);
+    if (deadlines.length === 0) return;
+
+    const callId = callState.callId;
+    const timeout = setTimeout(() => {
+      expirePendingInvites(callId).catch(error => {
+        console.error('Error expiring unanswered invites:', error);
+      });
+    }, Math.max(0, Math.min(...deadlines) - Date.now()));
+
+    return () => clearTimeout(timeout);
+  }, [callState.callId, callState.isInCall, callState.participantStates]);
+
+  useEffect(() => {
+    chatRef.current = { callId: callState.callId, messages: callState.chatMessages, save: saveChatOnEnd };
+  }, [callState.callId, callState.chatMessages, saveChatOnEnd]);
+
+  // Saves the chat when we're done with the call, if asked to
+  const finishChat = useCallback(() => {
+    const { callId, messages, save } = chatRef.current;
+    if (!save || !callId || messages.length === 0) return;
+
+    saveChatTranscript(callId, messages).catch(error => {
+      console.error('Error saving chat transcript:', error);
+    });
+  }, []);
+
+  // Stops our recording, if any, and hands the file to the user
+  const finishRecording = useCallback(() => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+
+    recordingRef.current = null;
+    recording.recorder
+      .stop()
+      .then(blob => downloadRecording(blob, recording.startedAt))
+      .catch(error => console.error('Error finishing recording:', error));
+  }, []);
 
   // Handle remote user disconnect
   const handleRemoteDisconnect = useCallback(() => {
+    finishRecording();
+    finishChat();
     if (webRTCService) {
       webRTCService.cleanup();
     }
 
-    setCallState({
-      callId: null,
-      isInCall: false,
-      isCalling: false,
-      isReceivingCall: false,
-      callType: null,
-      localStream: null,
-      remoteStreams: new Map(),
-      participants: [],
-      isMuted: false,
-      isVideoOff: false,
-    });
+    setCallState(createInitialCallState());
     setIncomingCall(null);
-  }, [webRTCService]);
+    setWaitingCall(null);
+  }, [webRTCService, finishRecording, finishChat]);
 
   // Listen for incoming calls
   useEffect(() => {
     if (!user) return;
 
+    // Active calls are included too: in a group call, others may still be
+    // ringing after the first person answers
     const callsRef = collection(db, 'calls');
     const q = query(
       callsRef,
       where('participants', 'array-contains', user.uid),
-      where('status', '==', 'ringing')
+      where('status', 'in', ['ringing', 'active'])
     );
 
+    const clearIncomingCall = (callId: string) => {
+      if (incomingCall?.id === callId) {
+        setIncomingCall(null);
+        setCallState(prev => ({ ...prev, isReceivingCall: false }));
+      }
+      setWaitingCall(prev => (prev?.id === callId ? null : prev));
+    };
+
     const unsubscribe = onSnapshot(q, (snapshot) => {
       snapshot.docChanges().forEach(async (change) => {
+        if (change.type === 'removed') {
+          // Call ended or document was deleted
+          clearIncomingCall(change.doc.id);
+          return;
+        }
+
+        const callData = { id: change.doc.id, ...change.doc.data() } as Call;
+        if (callData.callerId === user.uid) return;
+
+        // Legacy calls have no per-participant state; treat us as invited
+        const myEntry = callData.participantStates?.[user.uid];
+        const myState = myEntry?.state ?? 'invited';
+        if (!isPendingState(myState)) {
+          // We answered, declined or timed out (possibly from another tab)
+          clearIncomingCall(callData.id);
+          return;
+        }
+
         if (change.type === 'added') {
-          const callData = { id: change.doc.id, ...change.doc.data() } as Call;
-          
-          // Check if call is stale (older than 60 seconds) - cleanup on page load
-          const createdAt = callData.createdAt?.toDate?.() || new Date(0);
-          const now = new Date();
-          const ageInSeconds = (now.getTime() - createdAt.getTime()) / 1000;
-          
-          if (ageInSeconds > 60) {
-            // Mark stale call as missed
+          // Check if the invite has already rung out - cleanup on page load.
+          // Measured from when we were invited, which is later than createdAt
+          // for people added to a call in progress
+          const inviteEntry = myEntry ?? { state: myState, updatedAt: callData.createdAt };
+
+          if (isInviteExpired(inviteEntry)) {
             try {
-              await updateDoc(doc(db, 'calls', change.doc.id), {
-                status: 'missed',
-                endedAt: Timestamp.now(),
-              });
+              await updateParticipantState(callData.id, user.uid, 'timed-out');
             } catch (err) {
               console.error('Error cleaning up stale call:', err);
             }
             return;
           }
-          
-          // Don't show incoming call if user is the caller or already in a call
-          if (callData.callerId !== user.uid && !callState.isInCall) {
-            setIncomingCall(callData);
-            setCallState(prev => ({ ...prev, isReceivingCall: true }));
-          }
-        } else if (change.type === 'modified') {
-          const callData = change.doc.data() as Call;
-          
-          // If call ended or missed, clear incoming call
-          if (callData.status === 'ended' || callData.status === 'missed') {
-            setIncomingCall(null);
-            setCallState(prev => ({ ...prev, isReceivingCall: false }));
-          }
-        } else if (change.type === 'removed') {
-          // Call document was deleted, clear incoming call
-          if (incomingCall?.id === change.doc.id) {
-            setIncomingCall(null);
-            setCallState(prev => ({ ...prev, isReceivingCall: false }));
+        }
+
+        if (callState.isInCall) {
+          if (!user.callWaitingEnabled) {
+            // Tell the caller straight away instead of letting it ring out
+            updateParticipantState(callData.id, user.uid, 'busy').catch(err => {
+              console.error('Error answering busy:', err);
+            });
+            return;
           }
+
+          // Call waiting: CallUI shows a banner instead of the full-screen ring
+          setWaitingCall(prev => (prev?.id === callData.id ? prev : callData));
+        } else {
+          // Keep the same object for the same call so the ringtone doesn't restart
+          setIncomingCall(prev => (prev?.id === callData.id ? prev : callData));
+          setCallState(prev => ({ ...prev, isReceivingCall: true }));
+        }
+
+        if (myState === 'invited') {
+          updateParticipantState(callData.id, user.uid, 'ringing').catch(err => {
+            console.error('Error marking call as ringing:', err);
+          });
         }
       });
     });
 
     return () => unsubscribe();
-  }, [user, callState.isInCall, incomingCall?.id]);
+  }, [user?.uid, user?.callWaitingEnabled, callState.isInCall, incomingCall?.id]);
+
+  // Stop ringing on our side when the invite rings out, even if the caller
+  // has gone away and can't time it out for us
+  const ringingCall = incomingCall || waitingCall;
+  useEffect(() => {
+    if (!ringingCall || !user) return;
+
+    const myEntry = ringingCall.participantStates?.[user.uid];
+    const deadline = getRingDeadline(myEntry ?? { state: 'invited', updatedAt: ringingCall.createdAt });
+    const callId = ringingCall.id;
+
+    const timeout = setTimeout(() => {
+      setIncomingCall(prev => (prev?.id === callId ? null : prev));
+      setWaitingCall(prev => (prev?.id === callId ? null : prev));
+      setCallState(prev => ({ ...prev, isReceivingCall: false }));
+      expirePendingInvites(callId).catch(error => {
+        console.error('Error expiring unanswered invite:', error);
+      });
+    }, Math.max(0, deadline - Date.now()));
+
+    return () => clearTimeout(timeout);
+  }, [ringingCall, user?.uid]);
 
   // Start a call
   const startCall = useCallback(
@@ -206,7 +736,11 @@ export const CallProvider: React.FC<{ children: React.ReactNode }> = ({ children
         setCallState(prev => ({ ...prev, isCalling: true, callType: type }));
 
         // Initialize local stream
-        const localStream = await webRTCService.initializeLocalStream(type === 'voice');
+        const localStream = await webRTCService.initializeLocalStream(
+          type === 'voice',
+          deviceManager.getPreferred()
+        );
+        onLocalStreamStarted(localStream);
         
         // Create call document
         const callRef = doc(collection(db, 'calls'));
@@ -217,41 +751,20 @@ export const CallProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
         await setDoc(callRef, {
           callerId: user.uid,
+          hostId: user.uid,
           callerName: user.displayName,
           callerPhoto: user.photoURL,
           receiverId: isGroupCall ? null : receiverIds[0],
           participants,
           type,
           status: 'ringing',
+          participantStates: createParticipantStates(user.uid, receiverIds),
           isGroupCall,
           createdAt: Timestamp.now(),
         });
 
-        webRTCService.setCallId(callId);
-
-        // Create offers for each receiver
-        for (const receiverId of receiverIds) {
-          const offer = await webRTCService.createOffer(receiverId);
-          
-          await setDoc(doc(db, 'calls', callId, 'offers', receiverId), {
-            offer,
-            fromUserId: user.uid,
-            toUserId: receiverId,
-            timestamp: Timestamp.now(),
-          });
-
-          // Listen for ICE candidates
-          webRTCService.listenForCandidates(callId, receiverId);
-
-          // Setup remote stream listener
-          webRTCService.setupRemoteStreamListener(receiverId, (stream) => {
-            setCallState(prev => {
-              const newRemoteStreams = new Map(prev.remoteStreams);
-              newRemoteStreams.set(receiverId, stream);
-              return { ...prev, remoteStreams: newRemoteStreams };
-            });
-          });
-        }
+        // Join the mesh; receivers connect to us (and to each other) as they answer
+        await webRTCService.joinCall(callId);
 
         // Fetch participant details
         const participantDetails = await Promise.all(
@@ -264,134 +777,121 @@ export const CallProvider: React.FC<{ children: React.ReactNode }> = ({ children
         setCallState(prev => ({
           ...prev,
           callId,
+          hostId: user.uid,
           isInCall: true,
           isCalling: false,
           localStream,
           participants: participantDetails,
         }));
 
-        // Listen for answers
-        const answersRef = collection(db, 'calls', callId, 'answers');
-        onSnapshot(answersRef, (snapshot) => {
-          snapshot.docChanges().forEach((change) => {
-            if (change.type === 'added') {
-              const data = change.doc.data();
-              webRTCService.handleAnswer(data.fromUserId, data.answer);
-            }
-          });
-        });
-
-        // Update call status to active after 2 seconds (simulating ring time)
-        setTimeout(async () => {
-          await updateDoc(callRef, {
-            status: 'active',
-            startedAt: Timestamp.now(),
-          });
-        }, 2000);
-
       } catch (error) {
         console.error('Error starting call:', error);
         setCallState(prev => ({ ...prev, isCalling: false }));
         throw error;
       }
     },
-    [user, webRTCService]
+    [user, webRTCService, deviceManager, onLocalStreamStarted]
   );
 
-  // Answer a call
-  const answerCall = useCallback(
-    async (callId: string) => {
-      if (!user || !webRTCService || !incomingCall) return;
-
-      try {
-        // Initialize local stream
-        const localStream = await webRTCService.initializeLocalStream(
-          incomingCall.type === 'voice'
-        );
-
-        webRTCService.setCallId(callId);
-
-        // Get all offers for this user
-        const offersRef = collection(db, 'calls', callId, 'offers');
-        const offerDoc = await getDoc(doc(offersRef, user.uid));
-
-        if (offerDoc.exists()) {
-          const offerData = offerDoc.data();
-          const callerId = offerData.fromUserId;
-
-          // IMPORTANT: Create peer connection and setup remote stream listener FIRST
-          // before calling createAnswer, because setRemoteDescription can trigger
-          // ontrack events immediately
-          webRTCService.createPeerConnection(callerId);
-          
-          // Setup remote stream listener BEFORE creating answer
-          webRTCService.setupRemoteStreamListener(callerId, (stream) => {
-            setCallState(prev => {
-              const newRemoteStreams = new Map(prev.remoteStreams);
-              newRemoteStreams.set(callerId, stream);
-              return { ...prev, remoteStreams: newRemoteStreams };
-            });
-          });
+  // Join an existing call: one we're answering, or one we put on hold earlier
+  const enterCall = useCallback(
+    async (call: Call) => {
+      if (!user || !webRTCService) return;
+      if (call.locked && isPendingState(call.participantStates?.[user.uid]?.state)) {
+        throw new Error('The host has locked this call');
+      }
 
-          // Listen for ICE candidates
-          webRTCService.listenForCandidates(callId, callerId);
+      // Initialize local stream
+      const localStream = await webRTCService.initializeLocalStream(
+        call.type === 'voice',
+        deviceManager.getPreferred()
+      );
+      onLocalStreamStarted(localStream);
 
-          // Now create answer (will reuse the existing peer connection)
-          const answer = await webRTCService.createAnswer(callerId, offerData.offer);
+      // Mark ourselves joined first (the call becomes active with two people
+      // connected): peers who still saw us as 'held' when our join arrived
+      // would otherwise close the connection it just set up
+      await updateParticipantState(call.id, user.uid, 'joined');
 
-          await setDoc(doc(db, 'calls', callId, 'answers', user.uid), {
-            answer,
-            fromUserId: user.uid,
-            toUserId: callerId,
-            timestamp: Timestamp.now(),
-          });
-        }
+      // Join the mesh: negotiates a peer connection with every participant already in the call
+      await webRTCService.joinCall(call.id);
 
-        // Update call status
-        await updateDoc(doc(db, 'calls', callId), {
-          status: 'active',
-          startedAt: Timestamp.now(),
-        });
+      // Fetch all participants
+      const participantDetails = await Promise.all(
+        call.participants
+          .filter(id => id !== user.uid)
+          .map(async (id) => {
+            const userDoc = await getDoc(doc(db, 'users', id));
+            return userDoc.data() as User;
+          })
+      );
 
-        // Fetch all participants
-        const participantDetails = await Promise.all(
-          incomingCall.participants
-            .filter(id => id !== user.uid)
-            .map(async (id) => {
-              const userDoc = await getDoc(doc(db, 'users', id));
-              return userDoc.data() as User;
-            })
-        );
+      setCallState(prev => ({
+        ...prev,
+        callId: call.id,
+        roomId: call.roomId || null,
+        hostId: getHostId(call),
+        isLocked: !!call.locked,
+        isInCall: true,
+        isReceivingCall: false,
+        callType: call.type,
+        localStream,
+        participants: participantDetails,
+      }));
+    },
+    [user, webRTCService, deviceManager, onLocalStreamStarted]
+  );
 
-        setCallState(prev => ({
-          ...prev,
-          callId,
-          isInCall: true,
-          isReceivingCall: false,
-          callType: incomingCall.type,
-          localStream,
-          participants: participantDetails,
-        }));
+  // Answer a call
+  const answerCall = useCallback(
+    async (callId: string) => {
+      if (!incomingCall || incomingCall.id !== callId) return;
 
+      try {
+        await enterCall(incomingCall);
         setIncomingCall(null);
       } catch (error) {
         console.error('Error answering call:', error);
         throw error;
       }
     },
-    [user, webRTCService, incomingCall]
+    [incomingCall, enterCall]
+  );
+
+  // Enter a room's live call, starting it if nobody is inside yet
+  const joinRoom = useCallback(
+    async (roomId: string, media: { isMuted: boolean; isVideoOff: boolean }) => {
+      if (!user || !webRTCService || callState.isInCall) return;
+
+      const call = await joinRoomCall(roomId, user);
+      try {
+        await enterCall(call);
+      } catch (error) {
+        // We're already counted as inside; give the place back
+        updateParticipantState(call.id, user.uid, 'left').catch(err => {
+          console.error('Error leaving room call:', err);
+        });
+        handleRemoteDisconnect();
+        throw error;
+      }
+
+      if (media.isMuted) {
+        webRTCService.toggleAudio(false);
+      }
+      if (media.isVideoOff) {
+        webRTCService.toggleVideo(false);
+      }
+      setCallState(prev => ({ ...prev, isMuted: media.isMuted, isVideoOff: media.isVideoOff }));
+    },
+    [user, webRTCService, callState.isInCall, enterCall, handleRemoteDisconnect]
   );
 
-  // Decline incoming call
+  // Decline incoming call - only our own participation; a group call carries on
   const declineCall = useCallback(async () => {
-    if (!incomingCall) return;
+    if (!incomingCall || !user) return;
 
     try {
-      // Update call status to missed/declined
-      await updateDoc(doc(db, 'calls', incomingCall.id), {
-        status: 'missed',
-        endedAt: Timestamp.now(),
-      });
+      await updateParticipantState(incomingCall.id, user.uid, 'declined');
 
       // Clear incoming call state
       setIncomingCall(null);
@@ -399,48 +899,201 @@ export const CallProvider: React.FC<{ children: React.ReactNode }> = ({ children
     } catch (error) {
       console.error('Error declining call:', error);
     }
-  }, [incomingCall]);
+  }, [incomingCall, user]);
 
-  // End call
-  const endCall = useCallback(async () => {
-    if (!callState.callId || !webRTCService) return;
+  // Leave the call - everyone else stays connected to each other
+  const leaveCall = useCallback(async () => {
+    if (!callState.callId || !webRTCService || !user) return;
 
     try {
-      // Update call status
-      await updateDoc(doc(db, 'calls', callState.callId), {
-        status: 'ended',
-        endedAt: Timestamp.now(),
-      });
+      // Tell the other participants over signaling before leaving the channel
+      await webRTCService.sendControl('hangup');
+      if (recordingRef.current) {
+        await setRecording(callState.callId, user.uid, false);
+      }
 
-      // Cleanup WebRTC
-      webRTCService.cleanup();
+      // The call itself only ends once the last connected participant leaves
+      await updateParticipantState(callState.callId, user.uid, 'left');
+    } catch (error) {
+      console.error('Error leaving call:', error);
+    } finally {
+      handleRemoteDisconnect();
+    }
+  }, [callState.callId, webRTCService, user, handleRemoteDisconnect]);
 
-      // Reset state
-      setCallState({
-        callId: null,
-        isInCall: false,
-        isCalling: false,
-        isReceivingCall: false,
-        callType: null,
-        localStream: null,
-        remoteStreams: new Map(),
-        participants: [],
-        isMuted: false,
-        isVideoOff: false,
-      });
+  // Step out of the current call without ending it; returns it for resuming later
+  const holdCurrentCall = useCallback(async (): Promise<Call | null> => {
+    if (!callState.callId || !webRTCService || !user) return null;
 
-      setIncomingCall(null);
+    const callId = callState.callId;
+    await webRTCService.sendControl('hangup');
+    if (recordingRef.current) {
+      await setRecording(callId, user.uid, false);
+    }
+    await updateParticipantState(callId, user.uid, 'held');
+    const snapshot = await getDoc(doc(db, 'calls', callId));
+
+    finishRecording();
+    finishChat();
+    webRTCService.cleanup();
+    setCallState(createInitialCallState());
+
+    return snapshot.exists() ? ({ id: callId, ...snapshot.data() } as Call) : null;
+  }, [callState.callId, webRTCService, user, finishRecording, finishChat]);
+
+  // Rejoin a held call, unless it ended while we were away
+  const resumeCall = useCallback(
+    async (call: Call) => {
+      if (!user) return;
+
+      const snapshot = await getDoc(doc(db, 'calls', call.id));
+      const latest = snapshot.exists() ? ({ id: call.id, ...snapshot.data() } as Call) : null;
+      const stillHeld = latest?.participantStates?.[user.uid]?.state === 'held';
+
+      if (!latest || (latest.status !== 'ringing' && latest.status !== 'active') || !stillHeld) {
+        alert('The call you put on hold has ended');
+        return;
+      }
+
+      await enterCall(latest);
+    },
+    [user, enterCall]
+  );
+
+  // Answer the call waiting for us, putting the current one on hold or leaving it
+  const acceptWaitingCall = useCallback(
+    async (current: 'hold' | 'end') => {
+      if (!waitingCall) return;
+      if (current === 'hold' && heldCall) {
+        throw new Error('Only one call can be on hold');
+      }
+
+      const call = waitingCall;
+      let held: Call | null = null;
+      setWaitingCall(null);
+      setIsSwitchingCalls(true);
+
+      try {
+        if (current === 'hold') {
+          held = await holdCurrentCall();
+        } else {
+          await leaveCall();
+        }
+        await enterCall(call);
+      } catch (error) {
+        console.error('Error accepting waiting call:', error);
+        throw error;
+      } finally {
+        if (held) setHeldCall(held);
+        setIsSwitchingCalls(false);
+      }
+    },
+    [waitingCall, heldCall, holdCurrentCall, leaveCall, enterCall]
+  );
+
+  const declineWaitingCall = useCallback(async () => {
+    if (!waitingCall || !user) return;
+
+    try {
+      await updateParticipantState(waitingCall.id, user.uid, 'declined');
+      setWaitingCall(null);
+    } catch (error) {
+      console.error('Error declining waiting call:', error);
+    }
+  }, [waitingCall, user]);
+
+  // Put the current call on hold and go back to the held one
+  const swapHeldCall = useCallback(async () => {
+    if (!heldCall) return;
+
+    const call = heldCall;
+    let held: Call | null = null;
+    setHeldCall(null);
+    setIsSwitchingCalls(true);
+
+    try {
+      held = await holdCurrentCall();
+      await resumeCall(call);
+    } catch (error) {
+      console.error('Error swapping calls:', error);
+      throw error;
+    } finally {
+      if (held) setHeldCall(held);
+      setIsSwitchingCalls(false);
+    }
+  }, [heldCall, holdCurrentCall, resumeCall]);
+
+  // Back to the held call once the other one is over
+  useEffect(() => {
+    if (!heldCall || isSwitchingCalls || callState.isInCall || callState.isCalling || incomingCall) return;
+
+    const call = heldCall;
+    setHeldCall(null);
+    resumeCall(call).catch(error => {
+      console.error('Error resuming held call:', error);
+    });
+  }, [heldCall, isSwitchingCalls, callState.isInCall, callState.isCalling, incomingCall, resumeCall]);
+
+  // Ring more people into the current call
+  const addParticipants = useCallback(
+    async (userIds: string[]) => {
+      if (!callState.callId || userIds.length === 0) return;
+
+      // Throws if the call is full or already over; CallUI shows the message
+      await addCallParticipants(callState.callId, userIds);
+    },
+    [callState.callId]
+  );
+
+  // End the call for everyone (host only) - other clients tear down from the status listener
+  const endCallForAll = useCallback(async () => {
+    if (!callState.callId || !webRTCService || !user) return;
+    if (callState.hostId !== user.uid) {
+      throw new Error('Only the host can end the call for everyone');
+    }
+
+    try {
+      await webRTCService.sendControl('hangup');
+      await endCallForAllParticipants(callState.callId, user.uid);
     } catch (error) {
-      console.error('Error ending call:', error);
+      console.error('Error ending call for everyone:', error);
+    } finally {
+      handleRemoteDisconnect();
     }
-  }, [callState.callId, webRTCService]);
+  }, [callState.callId, callState.hostId, webRTCService, user, handleRemoteDisconnect]);
+
+  // Host controls; everyone else's clients react through the call document listener
+  const assertHost = useCallback((): string => {
+    if (!callState.callId || !user || callState.hostId !== user.uid) {
+      throw new Error('Only the host can do that');
+    }
+    return callState.callId;
+  }, [callState.callId, callState.hostId, user]);
+
+  const muteParticipant = useCallback(async (userId: string) => {
+    await requestMute(assertHost(), userId);
+  }, [assertHost]);
+
+  const removeParticipant = useCallback(async (userId: string) => {
+    await removeCallParticipant(assertHost(), user!.uid, userId);
+    // Don't wait for our own listener to drop them
+    webRTCService?.blockPeer(userId);
+  }, [assertHost, user, webRTCService]);
+
+  const lockCall = useCallback(async (locked: boolean) => {
+    await setCallLocked(assertHost(), user!.uid, locked);
+  }, [assertHost, user]);
+
+  const makeHost = useCallback(async (userId: string) => {
+    await transferHost(assertHost(), user!.uid, userId);
+  }, [assertHost, user]);
 
   // Toggle mute
   const toggleMute = useCallback(() => {
     if (webRTCService) {
       const newMutedState = !callState.isMuted;
       webRTCService.toggleAudio(!newMutedState);
-      setCallState(prev => ({ ...prev, isMuted: newMutedState }));
+      setCallState(prev => ({ ...prev, isMuted: newMutedState, mutedByHost: prev.mutedByHost && newMutedState }));
     }
   }, [webRTCService, callState.isMuted]);
 
@@ -453,6 +1106,109 @@ export const CallProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }, [webRTCService, callState.isVideoOff]);
 
+  // Start screen share (video calls only; swaps the outgoing camera track)
+  const startScreenShare = useCallback(async () => {
+    if (!webRTCService || callState.callType !== 'video') return;
+
+    try {
+      await webRTCService.startScreenShare();
+    } catch (error) {
+      console.error('Error starting screen share:', error);
+      throw error;
+    }
+  }, [webRTCService, callState.callType]);
+
+  // Stop screen share and go back to the camera
+  const stopScreenShare = useCallback(async () => {
+    if (webRTCService) {
+      await webRTCService.stopScreenShare();
+    }
+  }, [webRTCService]);
+
+  // Record the call locally; the others see an indicator through the call document
+  const startRecording = useCallback(async () => {
+    if (!callState.callId || !callState.isInCall || !user || recordingRef.current) return;
+
+    const recorder = new CallRecorder(callState.callType === 'voice');
+    recorder.start(getRecordingSources());
+    recordingRef.current = { recorder, startedAt: new Date() };
+    setCallState(prev => ({ ...prev, isRecording: true }));
+
+    try {
+      await setRecording(callState.callId, user.uid, true);
+    } catch (error) {
+      // Nobody would know they're being recorded, so don't keep going
+      recordingRef.current = null;
+      recorder.stop().catch(() => {});
+      setCallState(prev => ({ ...prev, isRecording: false }));
+      throw error;
+    }
+  }, [callState.callId, callState.isInCall, callState.callType, user, getRecordingSources]);
+
+  // Stop recording and download the file
+  const stopRecording = useCallback(async () => {
+    if (!callState.callId || !user || !recordingRef.current) return;
+
+    finishRecording();
+    setCallState(prev => ({ ...prev, isRecording: false }));
+    try {
+      await setRecording(callState.callId, user.uid, false);
+    } catch (error) {
+      console.error('Error clearing recording indicator:', error);
+    }
+  }, [callState.callId, user, finishRecording]);
+
+  // Send a chat message to everyone in the call over the data channels
+  const sendChatMessage = useCallback((text: string) => {
+    if (!webRTCService || !callState.isInCall) return;
+
+    const message = webRTCService.sendChatMessage(text);
+    setCallState(prev => ({ ...prev, chatMessages: [...prev.chatMessages, message] }));
+  }, [webRTCService, callState.isInCall]);
+
+  const sendReaction = useCallback(async (emoji: string) => {
+    if (!webRTCService || !user || !callState.isInCall || !isReactionEmoji(emoji)) return;
+    if (!reactionLimiter.allow(user.uid)) {
+      throw new Error('Slow down - you can send a few reactions every 10 seconds');
+    }
+
+    showReaction(user.uid, emoji);
+    await webRTCService.sendReaction(emoji);
+  }, [webRTCService, user, callState.isInCall, reactionLimiter, showReaction]);
+
+  // Our own hand, or (as host) someone else's - hosts can only lower other people's hands
+  const setHandRaised = useCallback(async (raised: boolean, userId?: string) => {
+    if (!webRTCService || !user || !callState.isInCall) return;
+    const target = userId || user.uid;
+    if (target !== user.uid && (raised || callState.hostId !== user.uid)) return;
+
+    setCallState(prev => {
+      const newRaisedHands = new Map(prev.raisedHands);
+      if (raised) {
+        newRaisedHands.set(target, Date.now());
+      } else {
+        newRaisedHands.delete(target);
+      }
+      return { ...prev, raisedHands: newRaisedHands };
+    });
+    await webRTCService.setHandRaised(raised, target);
+  }, [webRTCService, user, callState.isInCall, callState.hostId]);
+
+  const sendFile = useCallback(async (file: File, userId: string | null) => {
+    if (!webRTCService || !callState.isInCall) return;
+
+    const recipients = userId ? [userId] : Array.from(callState.remoteStreams.keys());
+    if (recipients.length === 0) {
+      throw new Error('Nobody is connected yet');
+    }
+    // Each recipient gets their own transfer, so one slow link doesn't hold up the rest
+    await Promise.all(recipients.map(recipient => webRTCService.sendFile(recipient, file)));
+  }, [webRTCService, callState.isInCall, callState.remoteStreams]);
+
+  const cancelFileTransfer = useCallback((transferId: string) => {
+    webRTCService?.cancelFileTransfer(transferId);
+  }, [webRTCService]);
+
   return (
     <CallContext.Provider
       value={{
@@ -460,10 +1216,36 @@ export const CallProvider: React.FC<{ children: React.ReactNode }> = ({ children
         incomingCall,
         startCall,
         answerCall,
-        endCall,
+        joinRoom,
+        leaveCall,
+        addParticipants,
+        endCallForAll,
         declineCall,
+        muteParticipant,
+        removeParticipant,
+        lockCall,
+        makeHost,
         toggleMute,
         toggleVideo,
+        startScreenShare,
+        stopScreenShare,
+        startRecording,
+        stopRecording,
+        sendChatMessage,
+        sendFile,
+        cancelFileTransfer,
+        sendReaction,
+        setHandRaised,
+        saveChatOnEnd,
+        setSaveChatOnEnd,
+        devices,
+        selectedDevices,
+        selectDevice,
+        waitingCall,
+        heldCall,
+        acceptWaitingCall,
+        declineWaitingCall,
+        swapHeldCall,
       }}
     >
       {children}
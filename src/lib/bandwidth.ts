@@ -0,0 +1,249 @@
+import { PeerStats } from '@/types';
+
+// Encoder limits for one outgoing video stream
+export interface VideoSendProfile {
+  maxBitrate: number; // bits per second
+  scaleResolutionDownBy: number; // relative to the 1280x720 capture
+  maxFramerate: number;
+  minBitrate: number; // usable bandwidth needed before stepping up to this profile
+}
+
+// Best first: 720p, 480p, 360p, 180p
+export const VIDEO_LADDER: VideoSendProfile[] = [
+  { maxBitrate: 1500000, scaleResolutionDownBy: 1, maxFramerate: 30, minBitrate: 1000000 },
+  { maxBitrate: 800000, scaleResolutionDownBy: 1.5, maxFramerate: 30, minBitrate: 500000 },
+  { maxBitrate: 450000, scaleResolutionDownBy: 2, maxFramerate: 24, minBitrate: 280000 },
+  { maxBitrate: 200000, scaleResolutionDownBy: 4, maxFramerate: 15, minBitrate: 120000 },
+];
+
+// One past the lowest rung: video is switched off and only audio is sent
+export const AUDIO_ONLY = VIDEO_LADDER.length;
+
+export interface BandwidthOptions {
+  audioReserve: number; // bits per second kept for audio and RTCP
+  headroom: number; // share of the bandwidth estimate we plan to use
+  downgradePolls: number; // consecutive stats polls before stepping down
+  upgradePolls: number; // ... and before stepping up
+  audioOnlyRetryMs: number; // how long to wait before trying video again
+  maxAudioOnlyRetryMs: number;
+  retryPolls: number; // polls a retried stream gets for the estimate to ramp up
+}
+
+export const DEFAULT_BANDWIDTH_OPTIONS: BandwidthOptions = {
+  audioReserve: 64000,
+  headroom: 0.85,
+  downgradePolls: 2,
+  upgradePolls: 3,
+  audioOnlyRetryMs: 15000,
+  maxAudioOnlyRetryMs: 120000,
+  retryPolls: 5,
+};
+
+/**
+ * Best rung every sender may use at this mesh size, before looking at
+ * bandwidth: each extra peer is another full encode on the same uplink.
+ * Even a full call keeps 360p as its ceiling.
+ */
+export const getParticipantCap = (peerCount: number): number =>
+  Math.min(Math.max(peerCount - 1, 0), VIDEO_LADDER.length - 2);
+
+// Best rung the estimate can carry, or AUDIO_ONLY when not even the lowest fits
+export const getBandwidthStep = (
+  availableOutgoingBitrate: number | null,
+  options: BandwidthOptions = DEFAULT_BANDWIDTH_OPTIONS
+): number => {
+  // No estimate yet (or not reported by this browser): trust the participant cap
+  if (availableOutgoingBitrate === null) return 0;
+
+  const usable = availableOutgoingBitrate * options.headroom - options.audioReserve;
+  const step = VIDEO_LADDER.findIndex(profile => usable >= profile.minBitrate);
+  return step === -1 ? AUDIO_ONLY : step;
+};
+
+interface PeerAdaptation {
+  step: number;
+  pendingStep: number | null;
+  pendingPolls: number;
+  audioOnlySince: number | null;
+  retrying: boolean;
+  failedRetries: number;
+  applied: string | null; // what the sender was last set to
+  sentAudioOnly: boolean; // whether video to this peer is actually switched off
+}
+
+/**
+ * Adapts each outgoing video stream to the mesh size and to that peer's
+ * bandwidth estimate, through RTCRtpSender.setParameters so nothing is
+ * renegotiated. Every peer connection has its own estimate, so one slow link
+ * only degrades (or drops to audio-only) the stream going to that peer.
+ *
+ * Steps down after a couple of bad polls and back up one rung at a time after
+ * a few good ones. An audio-only peer sends no video for the estimate to
+ * measure, so video is periodically retried at the lowest rung with backoff.
+ */
+export class BandwidthController {
+  private peers: Map<string, PeerAdaptation> = new Map();
+  private onAudioOnlyChange: (userId: string, audioOnly: boolean) => void;
+  private options: BandwidthOptions;
+
+  constructor(
+    onAudioOnlyChange: (userId: string, audioOnly: boolean) => void,
+    options: Partial<BandwidthOptions> = {}
+  ) {
+    this.onAudioOnlyChange = onAudioOnlyChange;
+    this.options = { ...DEFAULT_BANDWIDTH_OPTIONS, ...options };
+  }
+
+  async update(
+    videoSenders: Map<string, RTCRtpSender>,
+    stats: Map<string, PeerStats>,
+    isScreenSharing: boolean
+  ): Promise<void> {
+    const cap = getParticipantCap(videoSenders.size);
+    const now = Date.now();
+
+    await Promise.all(
+      Array.from(videoSenders.entries()).map(async ([userId, sender]) => {
+        // Voice calls and camera-less streams have nothing to adapt
+        if (!sender.track) return;
+
+        const peer = this.getPeer(userId);
+        const estimate = stats.get(userId)?.availableOutgoingBitrate ?? null;
+        this.nextStep(peer, cap, getBandwidthStep(estimate, this.options), now);
+
+        const step = peer.step;
+        const applied = await this.apply(sender, step, isScreenSharing, peer.applied);
+        // The peer may have left while setParameters was running
+        if (applied === null || this.peers.get(userId) !== peer) return;
+        peer.applied = applied;
+
+        const isAudioOnly = step === AUDIO_ONLY;
+        if (isAudioOnly !== peer.sentAudioOnly) {
+          peer.sentAudioOnly = isAudioOnly;
+          console.log(`${isAudioOnly ? 'Pausing' : 'Resuming'} video to ${userId} (bandwidth)`);
+          this.onAudioOnlyChange(userId, isAudioOnly);
+        }
+      })
+    );
+  }
+
+  isAudioOnly(userId: string): boolean {
+    return this.peers.get(userId)?.sentAudioOnly ?? false;
+  }
+
+  forget(userId: string): void {
+    this.peers.delete(userId);
+  }
+
+  reset(): void {
+    this.peers.clear();
+  }
+
+  private getPeer(userId: string): PeerAdaptation {
+    let peer = this.peers.get(userId);
+    if (!peer) {
+      peer = {
+        step: 0,
+        pendingStep: null,
+        pendingPolls: 0,
+        audioOnlySince: null,
+        retrying: false,
+        failedRetries: 0,
+        applied: null,
+        sentAudioOnly: false,
+      };
+      this.peers.set(userId, peer);
+    }
+    return peer;
+  }
+
+  private nextStep(peer: PeerAdaptation, cap: number, bandwidthStep: number, now: number): void {
+    // More participants lower the ceiling straight away
+    if (peer.step < cap) {
+      this.setStep(peer, cap, now);
+    }
+
+    const target = Math.max(cap, bandwidthStep);
+
+    if (peer.step === AUDIO_ONLY && target === AUDIO_ONLY) {
+      const retryDelay = Math.min(
+        this.options.audioOnlyRetryMs * 2 ** peer.failedRetries,
+        this.options.maxAudioOnlyRetryMs
+      );
+      if (peer.audioOnlySince !== null && now - peer.audioOnlySince >= retryDelay) {
+        this.setStep(peer, AUDIO_ONLY - 1, now);
+        peer.retrying = true;
+      }
+      return;
+    }
+
+    if (target === peer.step) {
+      peer.pendingStep = null;
+      peer.pendingPolls = 0;
+      return;
+    }
+
+    if (target !== peer.pendingStep) {
+      peer.pendingStep = target;
+      peer.pendingPolls = 0;
+    }
+    peer.pendingPolls += 1;
+
+    const isDowngrade = target > peer.step;
+    const requiredPolls = !isDowngrade
+      ? this.options.upgradePolls
+      : peer.retrying ? this.options.retryPolls : this.options.downgradePolls;
+    if (peer.pendingPolls < requiredPolls) return;
+
+    // Drop straight to what the link can carry, but climb back one rung at a time
+    this.setStep(peer, isDowngrade ? target : peer.step - 1, now);
+  }
+
+  private setStep(peer: PeerAdaptation, step: number, now: number): void {
+    if (step === AUDIO_ONLY) {
+      peer.audioOnlySince = now;
+      // The retry didn't hold: wait longer before the next one
+      if (peer.retrying) peer.failedRetries += 1;
+      peer.retrying = false;
+    } else if (step < AUDIO_ONLY - 1) {
+      peer.retrying = false;
+      peer.failedRetries = 0;
+    }
+    peer.step = step;
+    peer.pendingStep = null;
+    peer.pendingPolls = 0;
+  }
+
+  // Returns what the sender is now set to, or null if it can't be set yet
+  private async apply(
+    sender: RTCRtpSender,
+    step: number,
+    isScreenSharing: boolean,
+    previous: string | null
+  ): Promise<string | null> {
+    const profile = step === AUDIO_ONLY ? null : VIDEO_LADDER[step];
+    const key = JSON.stringify({ step, isScreenSharing });
+    if (key === previous) return key;
+
+    const parameters = sender.getParameters();
+    // Encodings only exist once the connection has been negotiated
+    if (!parameters.encodings || parameters.encodings.length === 0) return null;
+
+    const encoding = parameters.encodings[0];
+    encoding.active = profile !== null;
+    if (profile) {
+      encoding.maxBitrate = profile.maxBitrate;
+      // Text on a shared screen needs full resolution more than smooth motion
+      encoding.scaleResolutionDownBy = isScreenSharing ? 1 : profile.scaleResolutionDownBy;
+      encoding.maxFramerate = isScreenSharing ? Math.min(profile.maxFramerate, 15) : profile.maxFramerate;
+    }
+
+    try {
+      await sender.setParameters(parameters);
+      return key;
+    } catch (error) {
+      console.error('Error setting video send parameters:', error);
+      return null;
+    }
+  }
+}
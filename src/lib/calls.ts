@@ -0,0 +1,370 @@
+import { db } from './firebase';
+import {
+  deleteField,
+  doc,
+  DocumentReference,
+  runTransaction,
+  Timestamp,
+  Transaction,
+  updateDoc,
+  UpdateData,
+} from 'firebase/firestore';
+import { Call, ParticipantCallState, ParticipantStateEntry } from '@/types';
+import { getMissedBy, isInviteExpired, isPendingState } from './ringing';
+
+export const MAX_PARTICIPANTS = 5;
+
+// Still part of the call: in it, on hold, or being rung. Anyone else can be invited again.
+export const isActiveState = (state: ParticipantCallState | undefined): boolean =>
+  state === 'joined' || state === 'held' || isPendingState(state);
+
+// Calls created before host hand-off existed have no hostId
+export const getHostId = (call: Pick<Call, 'callerId' | 'hostId'>): string => call.hostId || call.callerId;
+
+export const createParticipantStates = (
+  callerId: string,
+  receiverIds: string[]
+): Record<string, ParticipantStateEntry> => {
+  const updatedAt = Timestamp.now();
+  const states: Record<string, ParticipantStateEntry> = {
+    [callerId]: { state: 'joined', updatedAt },
+  };
+  receiverIds.forEach(id => {
+    states[id] = { state: 'invited', updatedAt, invitedAt: updatedAt };
+  });
+  return states;
+};
+
+// A call somebody besides the caller picked up ends as 'ended', otherwise 'missed'
+const finishedStatus = (
+  call: Pick<Call, 'callerId'>,
+  states: Record<string, ParticipantStateEntry>
+): Call['status'] => {
+  const answered = Object.entries(states).some(
+    ([id, entry]) =>
+      id !== call.callerId && (entry.state === 'joined' || entry.state === 'left' || entry.state === 'held')
+  );
+  return answered ? 'ended' : 'missed';
+};
+
+/**
+ * Call status implied by everyone's participant state:
+ * - 'active' once two people are connected
+ * - 'ended' when at most one connected person is left and nobody else can
+ *   still join, provided anyone besides the caller ever answered
+ * - 'missed' in the same situation when nobody answered
+ * Someone on hold still counts as being in the call, so holding a 1:1 call
+ * doesn't end it. A room's call is live from its first person to its last,
+ * since anyone with the link can still come in. Finished calls never change
+ * status again.
+ */
+export const deriveCallStatus = (
+  call: Pick<Call, 'callerId' | 'status' | 'roomId'>,
+  states: Record<string, ParticipantStateEntry>
+): Call['status'] => {
+  if (call.status === 'ended' || call.status === 'missed') return call.status;
+
+  const entries = Object.entries(states);
+  const joined = entries.filter(([, entry]) => entry.state === 'joined').length;
+  const held = entries.filter(([, entry]) => entry.state === 'held').length;
+  const pending = entries.filter(([, entry]) => isPendingState(entry.state)).length;
+  const present = joined + held;
+
+  if (call.roomId) return present === 0 ? 'ended' : 'active';
+
+  if (joined >= 2) return 'active';
+
+  // Nobody left to talk to: no one present, or one person with nobody still ringing
+  if (present === 0 || (present < 2 && pending === 0)) return finishedStatus(call, states);
+
+  return call.status;
+};
+
+/**
+ * Fields to write along with a change to `states`: the call status it implies
+ * and `missedBy`. Once the call is over nobody can answer any more, so
+ * invites still ringing time out with it.
+ */
+const getStatusUpdate = (
+  call: Pick<Call, 'callerId' | 'status' | 'roomId' | 'startedAt'>,
+  states: Record<string, ParticipantStateEntry>,
+  now: Timestamp
+): UpdateData<Call> => {
+  const status = deriveCallStatus(call, states);
+  const update: UpdateData<Call> = {};
+
+  if (status !== call.status) {
+    update.status = status;
+    if (status === 'active' && !call.startedAt) {
+      update.startedAt = now;
+    }
+    if (status === 'ended' || status === 'missed') {
+      update.endedAt = now;
+    }
+  }
+
+  const finalStates = { ...states };
+  if (status === 'ended' || status === 'missed') {
+    Object.entries(states).forEach(([userId, entry]) => {
+      if (isPendingState(entry.state)) {
+        finalStates[userId] = { state: 'timed-out', updatedAt: now };
+        update[`participantStates.${userId}`] = finalStates[userId];
+      }
+    });
+  }
+  update.missedBy = getMissedBy(finalStates);
+
+  return update;
+};
+
+/**
+ * Records one participant's state change and moves the call to whatever
+ * status that implies, atomically so concurrent joins/leaves can't race.
+ */
+export const updateParticipantState = async (
+  callId: string,
+  userId: string,
+  state: ParticipantCallState
+): Promise<void> => {
+  const callRef = doc(db, 'calls', callId);
+
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(callRef);
+    if (!snapshot.exists()) return;
+
+    const call = snapshot.data() as Call;
+    if (state === 'joined' && call.locked && isPendingState(call.participantStates?.[userId]?.state)) {
+      throw new Error('The host has locked this call');
+    }
+
+    const now = Timestamp.now();
+    const entry: ParticipantStateEntry = { state, updatedAt: now };
+    // Going from 'invited' to 'ringing' keeps the invite's original deadline
+    const invitedAt = call.participantStates?.[userId]?.invitedAt;
+    if (isPendingState(state) && invitedAt) {
+      entry.invitedAt = invitedAt;
+    }
+    const states = { ...(call.participantStates || {}), [userId]: entry };
+
+    const update: UpdateData<Call> = { [`participantStates.${userId}`]: entry };
+    // A host who leaves hands the call to whoever has been connected the longest
+    if (state === 'left' && getHostId(call) === userId) {
+      const nextHostId = Object.entries(states)
+        .filter(([id, other]) => id !== userId && other.state === 'joined')
+        .sort(([, a], [, b]) => a.updatedAt.toMillis() - b.updatedAt.toMillis())[0]?.[0];
+      if (nextHostId) {
+        update.hostId = nextHostId;
+      }
+    }
+
+    transaction.update(callRef, { ...update, ...getStatusUpdate(call, states, now) });
+  });
+};
+
+/**
+ * Marks every invite that has rung for longer than `RING_TIMEOUT_MS` as
+ * 'timed-out'. Safe to run from several clients at once: invites that were
+ * answered or already expired are left alone.
+ */
+export const expirePendingInvites = async (callId: string): Promise<void> => {
+  const callRef = doc(db, 'calls', callId);
+
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(callRef);
+    if (!snapshot.exists()) return;
+
+    const call = snapshot.data() as Call;
+    const now = Timestamp.now();
+    const states = { ...(call.participantStates || {}) };
+    const update: UpdateData<Call> = {};
+
+    Object.entries(states).forEach(([userId, entry]) => {
+      if (isInviteExpired(entry, now.toMillis())) {
+        states[userId] = { state: 'timed-out', updatedAt: now };
+        update[`participantStates.${userId}`] = states[userId];
+      }
+    });
+    if (Object.keys(update).length === 0) return;
+
+    transaction.update(callRef, { ...update, ...getStatusUpdate(call, states, now) });
+  });
+};
+
+/**
+ * Ends the call for every participant. Only the host may do this; everyone
+ * else leaves with `updateParticipantState(..., 'left')`.
+ */
+export const endCallForAll = async (callId: string, userId: string): Promise<void> => {
+  const callRef = doc(db, 'calls', callId);
+
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(callRef);
+    if (!snapshot.exists()) return;
+
+    const call = snapshot.data() as Call;
+    if (getHostId(call) !== userId) {
+      throw new Error('Only the host can end the call for everyone');
+    }
+    if (call.status === 'ended' || call.status === 'missed') return;
+
+    const now = Timestamp.now();
+    const status = finishedStatus(call, call.participantStates || {});
+    transaction.update(callRef, {
+      ...getStatusUpdate({ ...call, status }, call.participantStates || {}, now),
+      status,
+      endedAt: now,
+    });
+  });
+};
+
+/**
+ * Invites more people into a call that is still ringing or active. They are
+ * rung by the normal incoming-call listener and negotiate with everyone
+ * already connected once they answer. People who declined, rang out or left
+ * are rung again; only those still part of the call count toward the limit.
+ */
+export const addParticipants = async (callId: string, userIds: string[]): Promise<void> => {
+  const callRef = doc(db, 'calls', callId);
+
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(callRef);
+    if (!snapshot.exists()) {
+      throw new Error('Call not found');
+    }
+
+    const call = snapshot.data() as Call;
+    if (call.status !== 'ringing' && call.status !== 'active') {
+      throw new Error('Call has already ended');
+    }
+    if (call.locked) {
+      throw new Error('The host has locked this call');
+    }
+    if (call.roomId) {
+      throw new Error('Share the room link to bring people in');
+    }
+
+    const states = call.participantStates || {};
+    const inviteIds = Array.from(new Set(userIds)).filter(
+      id => !isActiveState(states[id]?.state) && !call.removedParticipants?.includes(id)
+    );
+    if (inviteIds.length === 0) return;
+
+    const activeCount = call.participants.filter(id => isActiveState(states[id]?.state)).length;
+    if (activeCount + inviteIds.length > MAX_PARTICIPANTS) {
+      throw new Error(`Maximum ${MAX_PARTICIPANTS} participants allowed in a group call`);
+    }
+
+    const now = Timestamp.now();
+    const entry: ParticipantStateEntry = { state: 'invited', updatedAt: now, invitedAt: now };
+    const update: UpdateData<Call> = {
+      participants: [...call.participants, ...inviteIds.filter(id => !call.participants.includes(id))],
+      isGroupCall: true,
+      receiverId: null,
+    };
+    inviteIds.forEach(id => {
+      update[`participantStates.${id}`] = entry;
+    });
+    update.missedBy = getMissedBy({ ...states, ...Object.fromEntries(inviteIds.map(id => [id, entry])) });
+
+    transaction.update(callRef, update);
+  });
+};
+
+// Publishes that we started or stopped recording, so every participant sees it
+export const setRecording = async (
+  callId: string,
+  userId: string,
+  isRecording: boolean
+): Promise<void> => {
+  await updateDoc(doc(db, 'calls', callId), {
+    [`recordingBy.${userId}`]: isRecording ? Timestamp.now() : deleteField(),
+  });
+};
+
+// Reads the call for a host-only action, or throws if `userId` isn't the host
+const getCallAsHost = async (
+  transaction: Transaction,
+  callRef: DocumentReference,
+  userId: string
+): Promise<Call> => {
+  const snapshot = await transaction.get(callRef);
+  if (!snapshot.exists()) {
+    throw new Error('Call not found');
+  }
+
+  const call = snapshot.data() as Call;
+  if (getHostId(call) !== userId) {
+    throw new Error('Only the host can do that');
+  }
+  if (call.status === 'ended' || call.status === 'missed') {
+    throw new Error('Call has already ended');
+  }
+  return call;
+};
+
+/**
+ * Removes someone from the call (host only). They lose their place in
+ * `participants`, which also revokes their access to the call document, and
+ * are listed in `removedParticipants` so every client drops their peer
+ * connection and ignores their signaling from then on.
+ */
+export const removeParticipant = async (callId: string, hostId: string, userId: string): Promise<void> => {
+  const callRef = doc(db, 'calls', callId);
+
+  await runTransaction(db, async (transaction) => {
+    const call = await getCallAsHost(transaction, callRef, hostId);
+    if (userId === hostId) {
+      throw new Error('Hand host rights to someone else before leaving');
+    }
+    if (!call.participants.includes(userId)) return;
+
+    const now = Timestamp.now();
+    const entry: ParticipantStateEntry = { state: 'left', updatedAt: now };
+    const states = { ...(call.participantStates || {}), [userId]: entry };
+
+    transaction.update(callRef, {
+      participants: call.participants.filter(id => id !== userId),
+      removedParticipants: [...(call.removedParticipants || []), userId],
+      [`participantStates.${userId}`]: entry,
+      [`muteRequests.${userId}`]: deleteField(),
+      [`recordingBy.${userId}`]: deleteField(),
+      ...getStatusUpdate(call, states, now),
+    });
+  });
+};
+
+// Stops anyone new from being added to or joining the call (host only)
+export const setCallLocked = async (callId: string, hostId: string, locked: boolean): Promise<void> => {
+  const callRef = doc(db, 'calls', callId);
+
+  await runTransaction(db, async (transaction) => {
+    await getCallAsHost(transaction, callRef, hostId);
+    transaction.update(callRef, { locked });
+  });
+};
+
+// Hands host rights to another connected participant
+export const transferHost = async (callId: string, hostId: string, newHostId: string): Promise<void> => {
+  const callRef = doc(db, 'calls', callId);
+
+  await runTransaction(db, async (transaction) => {
+    const call = await getCallAsHost(transaction, callRef, hostId);
+    if (call.participantStates?.[newHostId]?.state !== 'joined') {
+      throw new Error('Only someone in the call can become host');
+    }
+    transaction.update(callRef, { hostId: newHostId });
+  });
+};
+
+// Asks a participant to mute; their client mutes itself and clears the request
+export const requestMute = async (callId: string, userId: string): Promise<void> => {
+  await updateDoc(doc(db, 'calls', callId), {
+    [`muteRequests.${userId}`]: Timestamp.now(),
+  });
+};
+
+export const clearMuteRequest = async (callId: string, userId: string): Promise<void> => {
+  await updateDoc(doc(db, 'calls', callId), {
+    [`muteRequests.${userId}`]: deleteField(),
+  });
+};
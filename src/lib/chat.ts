@@ -0,0 +1,42 @@
+import { db } from './firebase';
+import { doc, Timestamp, writeBatch } from 'firebase/firestore';
+import { ChatMessage } from '@/types';
+
+export const MAX_CHAT_MESSAGE_LENGTH = 2000;
+
+export const createChatMessageId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// Rejects anything a peer sent that isn't a well-formed chat message
+export const isChatMessage = (value: unknown): value is ChatMessage => {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const { id, senderId, text, timestamp } = value as Record<string, unknown>;
+  return (
+    typeof id === 'string' &&
+    /^[a-z0-9-]{1,64}$/.test(id) && // also a Firestore document ID when the transcript is saved
+    typeof senderId === 'string' &&
+    typeof text === 'string' &&
+    text.length <= MAX_CHAT_MESSAGE_LENGTH &&
+    typeof timestamp === 'number'
+  );
+};
+
+/**
+ * Writes the chat transcript to `calls/{callId}/messages`. Message IDs are
+ * the document IDs, so several participants saving the same call just
+ * overwrite each other's copies.
+ */
+export const saveChatTranscript = async (callId: string, messages: ChatMessage[]): Promise<void> => {
+  // A batch holds at most 500 writes
+  for (let start = 0; start < messages.length; start += 500) {
+    const batch = writeBatch(db);
+    messages.slice(start, start + 500).forEach(message => {
+      batch.set(doc(db, 'calls', callId, 'messages', message.id), {
+        ...message,
+        sentAt: Timestamp.fromMillis(message.timestamp),
+      });
+    });
+    await batch.commit();
+  }
+};
@@ -0,0 +1,96 @@
+import { DeviceLists, DeviceSelection } from '@/types';
+
+const STORAGE_KEY = 'webcall.preferredDevices';
+
+type DeviceChangeHandler = (devices: DeviceLists) => void;
+
+export const EMPTY_DEVICE_LISTS: DeviceLists = {
+  audioinput: [],
+  audiooutput: [],
+  videoinput: [],
+};
+
+export const EMPTY_DEVICE_SELECTION: DeviceSelection = {
+  audioinput: null,
+  audiooutput: null,
+  videoinput: null,
+};
+
+/**
+ * Lists cameras, microphones and speakers, reports when they are plugged in
+ * or out, and remembers the user's preferred device of each kind across
+ * sessions (localStorage).
+ */
+export class DeviceManager {
+  private handlers: Set<DeviceChangeHandler> = new Set();
+  private preferred: DeviceSelection;
+
+  constructor() {
+    this.preferred = this.loadPreferred();
+  }
+
+  async listDevices(): Promise<DeviceLists> {
+    if (!navigator.mediaDevices || !navigator.mediaDevices.enumerateDevices) {
+      return EMPTY_DEVICE_LISTS;
+    }
+
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    const lists: DeviceLists = { audioinput: [], audiooutput: [], videoinput: [] };
+
+    // Labels stay empty until the page has been granted media permission
+    devices.forEach(device => {
+      if (device.deviceId) {
+        lists[device.kind].push(device);
+      }
+    });
+
+    return lists;
+  }
+
+  onChange(handler: DeviceChangeHandler): () => void {
+    if (this.handlers.size === 0 && navigator.mediaDevices) {
+      navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+    }
+    this.handlers.add(handler);
+
+    return () => {
+      this.handlers.delete(handler);
+      if (this.handlers.size === 0 && navigator.mediaDevices) {
+        navigator.mediaDevices.removeEventListener('devicechange', this.handleDeviceChange);
+      }
+    };
+  }
+
+  getPreferred(): DeviceSelection {
+    return { ...this.preferred };
+  }
+
+  setPreferred(kind: MediaDeviceKind, deviceId: string | null): void {
+    this.preferred = { ...this.preferred, [kind]: deviceId };
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.preferred));
+    } catch (error) {
+      console.error('Error saving preferred devices:', error);
+    }
+  }
+
+  private handleDeviceChange = async () => {
+    try {
+      const devices = await this.listDevices();
+      this.handlers.forEach(handler => handler(devices));
+    } catch (error) {
+      console.error('Error listing devices:', error);
+    }
+  };
+
+  private loadPreferred(): DeviceSelection {
+    try {
+      const stored = typeof window !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+      return stored ? { ...EMPTY_DEVICE_SELECTION, ...JSON.parse(stored) } : EMPTY_DEVICE_SELECTION;
+    } catch (error) {
+      console.error('Error loading preferred devices:', error);
+      return EMPTY_DEVICE_SELECTION;
+    }
+  }
+}
@@ -0,0 +1,345 @@
+import { FileTransfer } from '@/types';
+
+export const MAX_FILE_SIZE = 100 * 1024 * 1024;
+
+// 16 KiB is the largest message every browser's SCTP stack handles well
+const CHUNK_SIZE = 16 * 1024;
+// Stop queueing chunks once this much is buffered, and resume when it drains to the threshold
+const MAX_BUFFERED_AMOUNT = 1024 * 1024;
+const BUFFERED_AMOUNT_LOW = 256 * 1024;
+const PROGRESS_INTERVAL_MS = 200;
+
+// Every binary chunk starts with its transfer's ID, so transfers can overlap
+const TRANSFER_ID_LENGTH = 16;
+
+// JSON messages on the file channel; chunks themselves are binary
+type FileControlMessage =
+  | { type: 'file-offer'; transferId: string; name: string; size: number; mimeType: string; sha256: string }
+  | { type: 'file-end'; transferId: string }
+  | { type: 'file-cancel'; transferId: string }
+  | { type: 'file-complete'; transferId: string; verified: boolean };
+
+interface FileTransferCallbacks {
+  getChannel: (userId: string) => RTCDataChannel | undefined;
+  onChange: (transfer: FileTransfer) => void;
+}
+
+interface TransferState {
+  transfer: FileTransfer;
+  sha256: string; // what the sender says the file hashes to
+  chunks: ArrayBuffer[]; // incoming only
+  lastProgressAt: number;
+}
+
+const createTransferId = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(TRANSFER_ID_LENGTH / 2)))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+const sha256 = async (data: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Sends files straight to other participants over a dedicated data channel
+ * per peer - nothing goes through a server. Chunks are queued only while the
+ * channel's buffer is below a limit, so large files don't exhaust memory, and
+ * the receiver checks the SHA-256 the sender announced before the file is
+ * offered for download.
+ */
+export class FileTransferManager {
+  private transfers: Map<string, TransferState> = new Map();
+  private callbacks: FileTransferCallbacks;
+  private encoder = new TextEncoder();
+  private decoder = new TextDecoder();
+
+  constructor(callbacks: FileTransferCallbacks) {
+    this.callbacks = callbacks;
+  }
+
+  async sendFile(userId: string, file: File): Promise<void> {
+    if (file.size > MAX_FILE_SIZE) {
+      throw new Error(`Files can be at most ${MAX_FILE_SIZE / (1024 * 1024)} MB`);
+    }
+
+    const channel = this.callbacks.getChannel(userId);
+    if (!channel || channel.readyState !== 'open') {
+      throw new Error('That participant is not connected');
+    }
+
+    const state: TransferState = {
+      transfer: {
+        id: createTransferId(),
+        peerId: userId,
+        direction: 'outgoing',
+        name: file.name,
+        size: file.size,
+        mimeType: file.type || 'application/octet-stream',
+        bytesTransferred: 0,
+        status: 'sending',
+      },
+      sha256: await sha256(await file.arrayBuffer()),
+      chunks: [],
+      lastProgressAt: 0,
+    };
+    const { transfer } = state;
+    this.transfers.set(transfer.id, state);
+    this.emit(state);
+
+    try {
+      this.sendControl(channel, {
+        type: 'file-offer',
+        transferId: transfer.id,
+        name: transfer.name,
+        size: transfer.size,
+        mimeType: transfer.mimeType,
+        sha256: state.sha256,
+      });
+
+      const idBytes = this.encoder.encode(transfer.id);
+      channel.bufferedAmountLowThreshold = BUFFERED_AMOUNT_LOW;
+
+      for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+        if (transfer.status !== 'sending') return; // cancelled or failed meanwhile
+
+        await this.waitForBuffer(channel);
+        const chunk = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+        if (transfer.status !== 'sending') return;
+
+        const frame = new Uint8Array(TRANSFER_ID_LENGTH + chunk.byteLength);
+        frame.set(idBytes);
+        frame.set(new Uint8Array(chunk), TRANSFER_ID_LENGTH);
+        channel.send(frame.buffer);
+
+        transfer.bytesTransferred = offset + chunk.byteLength;
+        this.emitProgress(state);
+      }
+
+      this.sendControl(channel, { type: 'file-end', transferId: transfer.id });
+      // Done once the receiver confirms the checksum
+      this.update(state, { status: 'verifying' });
+    } catch (error) {
+      console.error('Error sending file:', error);
+      this.fail(state, 'Connection lost during the transfer');
+    }
+  }
+
+  cancel(transferId: string): void {
+    const state = this.transfers.get(transferId);
+    if (!state || !this.isActive(state.transfer)) return;
+
+    const channel = this.callbacks.getChannel(state.transfer.peerId);
+    if (channel?.readyState === 'open') {
+      this.sendControl(channel, { type: 'file-cancel', transferId });
+    }
+    this.update(state, { status: 'cancelled' });
+  }
+
+  handleMessage(userId: string, data: string | ArrayBuffer): void {
+    if (typeof data !== 'string') {
+      this.handleChunk(userId, data);
+      return;
+    }
+
+    let message: FileControlMessage;
+    try {
+      message = JSON.parse(data);
+    } catch (error) {
+      console.warn('Ignoring malformed file transfer message from', userId);
+      return;
+    }
+
+    if (message.type === 'file-offer') {
+      this.handleOffer(userId, message);
+      return;
+    }
+
+    // Everything else refers to an existing transfer with this peer
+    const state = this.transfers.get(message.transferId);
+    if (!state || state.transfer.peerId !== userId) return;
+
+    switch (message.type) {
+      case 'file-end':
+        this.verify(state).catch(error => {
+          console.error('Error verifying file:', error);
+          this.fail(state, 'Could not verify the file');
+        });
+        break;
+      case 'file-cancel':
+        if (this.isActive(state.transfer)) {
+          state.chunks = [];
+          this.update(state, { status: 'cancelled' });
+        }
+        break;
+      case 'file-complete':
+        if (state.transfer.status === 'verifying') {
+          if (message.verified) {
+            this.update(state, { status: 'completed' });
+          } else {
+            this.fail(state, 'The file arrived corrupted');
+          }
+        }
+        break;
+    }
+  }
+
+  // The connection to a peer is gone: nothing in flight with them can finish
+  failPeer(userId: string): void {
+    this.transfers.forEach(state => {
+      if (state.transfer.peerId === userId && this.isActive(state.transfer)) {
+        this.fail(state, 'Connection lost during the transfer');
+      }
+    });
+  }
+
+  reset(): void {
+    this.transfers.clear();
+  }
+
+  private handleOffer(userId: string, message: Extract<FileControlMessage, { type: 'file-offer' }>): void {
+    if (
+      typeof message.transferId !== 'string' ||
+      message.transferId.length !== TRANSFER_ID_LENGTH ||
+      this.transfers.has(message.transferId)
+    ) {
+      return;
+    }
+
+    const state: TransferState = {
+      transfer: {
+        id: message.transferId,
+        peerId: userId,
+        direction: 'incoming',
+        name: String(message.name).slice(0, 255),
+        size: Number(message.size) || 0,
+        mimeType: String(message.mimeType || 'application/octet-stream'),
+        bytesTransferred: 0,
+        status: 'receiving',
+      },
+      sha256: String(message.sha256),
+      chunks: [],
+      lastProgressAt: 0,
+    };
+    this.transfers.set(state.transfer.id, state);
+
+    if (state.transfer.size > MAX_FILE_SIZE) {
+      this.cancel(state.transfer.id);
+      this.fail(state, 'File is too large');
+      return;
+    }
+    this.emit(state);
+  }
+
+  private handleChunk(userId: string, data: ArrayBuffer): void {
+    const transferId = this.decoder.decode(data.slice(0, TRANSFER_ID_LENGTH));
+    const state = this.transfers.get(transferId);
+    if (!state || state.transfer.peerId !== userId || state.transfer.status !== 'receiving') return;
+
+    const chunk = data.slice(TRANSFER_ID_LENGTH);
+    state.chunks.push(chunk);
+    state.transfer.bytesTransferred += chunk.byteLength;
+
+    if (state.transfer.bytesTransferred > state.transfer.size) {
+      this.cancel(transferId);
+      this.fail(state, 'Received more data than announced');
+      return;
+    }
+    this.emitProgress(state);
+  }
+
+  private async verify(state: TransferState): Promise<void> {
+    const { transfer } = state;
+    if (transfer.status !== 'receiving') return;
+    this.update(state, { status: 'verifying' });
+
+    const blob = new Blob(state.chunks, { type: transfer.mimeType });
+    state.chunks = [];
+    const verified =
+      blob.size === transfer.size && (await sha256(await blob.arrayBuffer())) === state.sha256;
+
+    const channel = this.callbacks.getChannel(transfer.peerId);
+    if (channel?.readyState === 'open') {
+      this.sendControl(channel, { type: 'file-complete', transferId: transfer.id, verified });
+    }
+
+    if (verified) {
+      this.update(state, { status: 'completed', blob });
+    } else {
+      this.fail(state, 'Checksum mismatch - the file arrived corrupted');
+    }
+  }
+
+  private waitForBuffer(channel: RTCDataChannel): Promise<void> {
+    if (channel.readyState !== 'open') {
+      return Promise.reject(new Error('Data channel closed'));
+    }
+    if (channel.bufferedAmount <= MAX_BUFFERED_AMOUNT) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        channel.removeEventListener('bufferedamountlow', onLow);
+        channel.removeEventListener('close', onClose);
+      };
+      const onLow = () => {
+        cleanup();
+        resolve();
+      };
+      const onClose = () => {
+        cleanup();
+        reject(new Error('Data channel closed'));
+      };
+      channel.addEventListener('bufferedamountlow', onLow);
+      channel.addEventListener('close', onClose);
+    });
+  }
+
+  private sendControl(channel: RTCDataChannel, message: FileControlMessage): void {
+    channel.send(JSON.stringify(message));
+  }
+
+  private isActive(transfer: FileTransfer): boolean {
+    return transfer.status === 'sending' || transfer.status === 'receiving' || transfer.status === 'verifying';
+  }
+
+  private fail(state: TransferState, error: string): void {
+    state.chunks = [];
+    this.update(state, { status: 'failed', error });
+  }
+
+  private update(state: TransferState, changes: Partial<FileTransfer>): void {
+    state.transfer = Object.assign(state.transfer, changes);
+    this.emit(state);
+  }
+
+  // Progress is throttled: a large file is thousands of chunks
+  private emitProgress(state: TransferState): void {
+    const now = Date.now();
+    if (now - state.lastProgressAt < PROGRESS_INTERVAL_MS && state.transfer.bytesTransferred < state.transfer.size) {
+      return;
+    }
+    state.lastProgressAt = now;
+    this.emit(state);
+  }
+
+  // Listeners get a copy, so React sees a new object on every change
+  private emit(state: TransferState): void {
+    // A transfer still winding down after reset() belongs to a call that's over
+    if (this.transfers.get(state.transfer.id) !== state) return;
+    this.callbacks.onChange({ ...state.transfer });
+  }
+}
+
+// Saves a received file through the browser's download prompt
+export const downloadFile = (blob: Blob, name: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+};
@@ -0,0 +1,24 @@
+import { initializeApp, getApps, cert, applicationDefault, App } from 'firebase-admin/app';
+import { getAuth, Auth } from 'firebase-admin/auth';
+import { getFirestore, Firestore } from 'firebase-admin/firestore';
+
+// Server-only. Credentials come from FIREBASE_SERVICE_ACCOUNT (the service
+// account JSON key) or Application Default Credentials. When
+// FIRESTORE_EMULATOR_HOST is set the SDK talks to the emulator instead and
+// no credentials are needed.
+
+const getAdminApp = (): App => {
+  const existing = getApps()[0];
+  if (existing) return existing;
+
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+  return initializeApp({
+    credential: serviceAccount ? cert(JSON.parse(serviceAccount)) : applicationDefault(),
+    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+  });
+};
+
+// Created on first use so importing this module never needs credentials
+export const getAdminDb = (): Firestore => getFirestore(getAdminApp());
+
+export const getAdminAuth = (): Auth => getAuth(getAdminApp());
@@ -0,0 +1,62 @@
+import { auth } from './firebase';
+
+// Fallback when /api/ice-servers is unreachable; STUN only, so symmetric NATs will fail
+export const DEFAULT_ICE_CONFIGURATION: RTCConfiguration = {
+  iceServers: [
+    { urls: 'stun:stun.l.google.com:19302' },
+    { urls: 'stun:stun1.l.google.com:19302' },
+    { urls: 'stun:stun2.l.google.com:19302' },
+  ],
+};
+
+// Refetch once this fraction of the credential lifetime has passed
+const REFRESH_AT = 0.8;
+
+let cached: { configuration: RTCConfiguration; expiresAt: number } | null = null;
+let inflight: Promise<RTCConfiguration> | null = null;
+
+const fetchIceConfiguration = async (): Promise<RTCConfiguration> => {
+  try {
+    // The route hands out TURN credentials only against a verified ID token
+    const idToken = await auth.currentUser?.getIdToken();
+    if (!idToken) {
+      throw new Error('Not signed in');
+    }
+
+    const response = await fetch('/api/ice-servers', {
+      cache: 'no-store',
+      headers: { Authorization: `Bearer ${idToken}` },
+    });
+
+    if (!response.ok) {
+      throw new Error(`ICE server request failed with status ${response.status}`);
+    }
+
+    const { iceServers, ttl } = (await response.json()) as {
+      iceServers: RTCIceServer[];
+      ttl: number;
+    };
+
+    const configuration: RTCConfiguration = { iceServers };
+    cached = { configuration, expiresAt: Date.now() + ttl * 1000 * REFRESH_AT };
+    return configuration;
+  } catch (error) {
+    console.error('Error fetching ICE servers, falling back to public STUN:', error);
+    return DEFAULT_ICE_CONFIGURATION;
+  }
+};
+
+// STUN/TURN configuration from /api/ice-servers, cached until the TURN credentials near expiry
+export const getIceConfiguration = async (): Promise<RTCConfiguration> => {
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.configuration;
+  }
+
+  if (!inflight) {
+    inflight = fetchIceConfiguration().finally(() => {
+      inflight = null;
+    });
+  }
+
+  return inflight;
+};
@@ -0,0 +1,165 @@
+import { db } from './firebase';
+import {
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  setDoc,
+  Timestamp,
+  updateDoc,
+} from 'firebase/firestore';
+import { PresenceStatus, User } from '@/types';
+
+export const HEARTBEAT_INTERVAL_MS = 30000;
+
+// A user (or tab) that hasn't sent a heartbeat for this long is offline
+export const PRESENCE_TIMEOUT_MS = HEARTBEAT_INTERVAL_MS * 2.5;
+
+interface PresenceSession {
+  status: Exclude<PresenceStatus, 'offline'>;
+  lastSeen: Timestamp;
+}
+
+const isFresh = (lastSeen: Timestamp | undefined, now: number): boolean =>
+  !!lastSeen && now - lastSeen.toMillis() < PRESENCE_TIMEOUT_MS;
+
+// What other users should see; never trust `isOnline` without a recent heartbeat
+export const getPresenceStatus = (user: User, now: number = Date.now()): PresenceStatus => {
+  if (!user.isOnline || !isFresh(user.lastSeen, now)) return 'offline';
+  return user.status || 'online';
+};
+
+/**
+ * Keeps the signed-in user's presence up to date. Every tab heartbeats its
+ * own session document (`users/{uid}/sessions/{tabId}`) and the user document;
+ * the user is 'online' if any live tab is visible, 'away' if all of them are
+ * hidden, and offline once every heartbeat has gone stale - so a crashed
+ * browser drops off without needing an unload handler to run.
+ */
+export class PresenceManager {
+  private userId: string;
+  private tabId = Math.random().toString(36).slice(2);
+  private sessions: Map<string, PresenceSession> = new Map();
+  private publishedStatus: PresenceStatus | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribeSessions: (() => void) | null = null;
+
+  constructor(userId: string) {
+    this.userId = userId;
+  }
+
+  start(): void {
+    if (this.heartbeatTimer) return;
+
+    this.unsubscribeSessions = onSnapshot(
+      collection(db, 'users', this.userId, 'sessions'),
+      (snapshot) => {
+        const now = Date.now();
+        this.sessions.clear();
+        snapshot.forEach(sessionDoc => {
+          const session = sessionDoc.data() as PresenceSession;
+          if (isFresh(session.lastSeen, now) || sessionDoc.id === this.tabId) {
+            this.sessions.set(sessionDoc.id, session);
+          } else {
+            // Left behind by a tab that crashed or was killed
+            deleteDoc(sessionDoc.ref).catch(() => {});
+          }
+        });
+        this.publishStatus();
+      },
+      (error) => console.error('Error listening to presence sessions:', error)
+    );
+
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    window.addEventListener('pagehide', this.handlePageHide);
+    this.heartbeatTimer = setInterval(this.heartbeat, HEARTBEAT_INTERVAL_MS);
+    this.heartbeat();
+  }
+
+  // Ends this tab's session; the user stays online if another tab is still
+  // live, unless `goOffline` is set (signing out signs every tab out)
+  async stop(goOffline: boolean = false): Promise<void> {
+    if (!this.heartbeatTimer) return;
+
+    clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+    this.unsubscribeSessions?.();
+    this.unsubscribeSessions = null;
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    window.removeEventListener('pagehide', this.handlePageHide);
+    window.removeEventListener('pageshow', this.handlePageShow);
+
+    this.sessions.delete(this.tabId);
+    const now = Timestamp.now();
+    const othersLive = Array.from(this.sessions.values()).some(session =>
+      isFresh(session.lastSeen, now.toMillis())
+    );
+
+    try {
+      await deleteDoc(doc(db, 'users', this.userId, 'sessions', this.tabId));
+      // Skipped if the page came back (see handlePageShow) while that was in flight
+      if ((goOffline || !othersLive) && !this.heartbeatTimer) {
+        await updateDoc(doc(db, 'users', this.userId), { isOnline: false, lastSeen: now });
+      }
+    } catch (error) {
+      console.error('Error ending presence session:', error);
+    }
+  }
+
+  private get localStatus(): PresenceSession['status'] {
+    return document.visibilityState === 'hidden' ? 'away' : 'online';
+  }
+
+  private heartbeat = async () => {
+    const session: PresenceSession = { status: this.localStatus, lastSeen: Timestamp.now() };
+    this.sessions.set(this.tabId, session);
+
+    try {
+      await setDoc(doc(db, 'users', this.userId, 'sessions', this.tabId), session);
+      await updateDoc(doc(db, 'users', this.userId), {
+        isOnline: true,
+        status: this.aggregateStatus(),
+        lastSeen: session.lastSeen,
+      });
+    } catch (error) {
+      console.error('Error sending presence heartbeat:', error);
+    }
+  };
+
+  // Online if any live tab is visible, away if they are all in the background
+  private aggregateStatus(): PresenceSession['status'] {
+    const now = Date.now();
+    const live = Array.from(this.sessions.values()).filter(session => isFresh(session.lastSeen, now));
+    return live.some(session => session.status === 'online') ? 'online' : 'away';
+  }
+
+  // Another tab changed state: update the user document if the overall status moved
+  private publishStatus(): void {
+    const status = this.aggregateStatus();
+    if (status === this.publishedStatus) return;
+    this.publishedStatus = status;
+
+    updateDoc(doc(db, 'users', this.userId), { status }).catch(error => {
+      console.error('Error publishing presence status:', error);
+    });
+  }
+
+  private handleVisibilityChange = () => {
+    this.heartbeat();
+  };
+
+  // Best effort only: the page may be gone before these writes land
+  private handlePageHide = (event: PageTransitionEvent) => {
+    this.stop();
+    // Frozen in the back/forward cache rather than unloaded; it may be restored
+    if (event.persisted) {
+      window.addEventListener('pageshow', this.handlePageShow);
+    }
+  };
+
+  private handlePageShow = (event: PageTransitionEvent) => {
+    if (!event.persisted) return;
+    window.removeEventListener('pageshow', this.handlePageShow);
+    this.start();
+  };
+}
@@ -0,0 +1,56 @@
+// The only emoji anyone can send; anything else from a peer is dropped
+export const REACTION_EMOJIS = ['👍', '👏', '😂', '❤️', '🎉', '😮'] as const;
+
+// How long a reaction floats over the sender's tile
+export const REACTION_DISPLAY_MS = 4000;
+
+// Reactions older than this are history being replayed to a late joiner, not live
+export const REACTION_MAX_AGE_MS = 10000;
+
+export interface ReactionLimitOptions {
+  maxReactions: number; // per user within the window
+  windowMs: number;
+}
+
+export const DEFAULT_REACTION_LIMIT_OPTIONS: ReactionLimitOptions = {
+  maxReactions: 5,
+  windowMs: 10000,
+};
+
+export const isReactionEmoji = (value: unknown): value is string =>
+  typeof value === 'string' && (REACTION_EMOJIS as readonly string[]).includes(value);
+
+/**
+ * Sliding-window limit on reactions per user. Senders check themselves
+ * before sending, and receivers check everyone else, so a modified client
+ * still can't flood the room.
+ */
+export class ReactionRateLimiter {
+  private sent: Map<string, number[]> = new Map();
+  private options: ReactionLimitOptions;
+
+  constructor(options: Partial<ReactionLimitOptions> = {}) {
+    this.options = { ...DEFAULT_REACTION_LIMIT_OPTIONS, ...options };
+  }
+
+  // Counts the reaction if it is within the limit
+  allow(userId: string, now: number = Date.now()): boolean {
+    const recent = (this.sent.get(userId) || []).filter(time => now - time < this.options.windowMs);
+    if (recent.length >= this.options.maxReactions) {
+      this.sent.set(userId, recent);
+      return false;
+    }
+
+    recent.push(now);
+    this.sent.set(userId, recent);
+    return true;
+  }
+
+  forget(userId: string): void {
+    this.sent.delete(userId);
+  }
+
+  reset(): void {
+    this.sent.clear();
+  }
+}
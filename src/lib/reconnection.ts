@@ -0,0 +1,144 @@
+import { PeerStatus } from '@/types';
+
+export interface ReconnectionOptions {
+  disconnectGraceMs: number; // how long a 'disconnected' peer may recover on its own
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxAttempts: number;
+}
+
+export const DEFAULT_RECONNECTION_OPTIONS: ReconnectionOptions = {
+  disconnectGraceMs: 4000,
+  baseDelayMs: 1000,
+  maxDelayMs: 16000,
+  maxAttempts: 5,
+};
+
+interface ReconnectionCallbacks {
+  restartIce: (userId: string) => Promise<void>;
+  onStatusChange: (userId: string, status: PeerStatus) => void;
+  onGiveUp: (userId: string) => void;
+}
+
+interface PeerReconnectState {
+  connectionState: RTCPeerConnectionState;
+  attempts: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Keeps peer connections alive through network blips. A 'disconnected' peer
+ * gets a grace period to recover by itself; after that, or straight away on
+ * 'failed' (unless a restart is already waiting out its backoff), ICE is
+ * restarted with exponential backoff until the connection comes back or the
+ * attempts run out.
+ */
+export class ReconnectionManager {
+  private peers: Map<string, PeerReconnectState> = new Map();
+  private callbacks: ReconnectionCallbacks;
+  private options: ReconnectionOptions;
+
+  constructor(callbacks: ReconnectionCallbacks, options: Partial<ReconnectionOptions> = {}) {
+    this.callbacks = callbacks;
+    this.options = { ...DEFAULT_RECONNECTION_OPTIONS, ...options };
+  }
+
+  handleConnectionState(userId: string, connectionState: RTCPeerConnectionState): void {
+    let peer = this.peers.get(userId);
+    if (!peer) {
+      peer = { connectionState, attempts: 0, timer: null };
+      this.peers.set(userId, peer);
+    }
+    peer.connectionState = connectionState;
+
+    switch (connectionState) {
+      case 'new':
+      case 'connecting':
+        // Connecting during a restart is still reconnecting as far as the UI cares
+        if (peer.attempts === 0 && !peer.timer) {
+          this.callbacks.onStatusChange(userId, 'connecting');
+        }
+        break;
+
+      case 'connected':
+        this.clearTimer(peer);
+        peer.attempts = 0;
+        this.callbacks.onStatusChange(userId, 'connected');
+        break;
+
+      case 'disconnected':
+        if (!peer.timer) {
+          this.callbacks.onStatusChange(userId, 'reconnecting');
+          peer.timer = setTimeout(() => {
+            peer!.timer = null;
+            this.attempt(userId);
+          }, this.options.disconnectGraceMs);
+        }
+        break;
+
+      case 'failed':
+        this.callbacks.onStatusChange(userId, 'reconnecting');
+        // A restart in flight still gets its backoff before the next one,
+        // so repeated failures can't turn into a burst of restarts
+        if (peer.attempts > 0 && peer.timer) break;
+        // Otherwise the grace period is moot: restart now
+        this.clearTimer(peer);
+        this.attempt(userId);
+        break;
+
+      case 'closed':
+        this.forget(userId);
+        break;
+    }
+  }
+
+  forget(userId: string): void {
+    const peer = this.peers.get(userId);
+    if (peer) {
+      this.clearTimer(peer);
+      this.peers.delete(userId);
+    }
+  }
+
+  reset(): void {
+    this.peers.forEach(peer => this.clearTimer(peer));
+    this.peers.clear();
+  }
+
+  private attempt(userId: string): void {
+    const peer = this.peers.get(userId);
+    if (!peer || peer.connectionState === 'connected') return;
+
+    if (peer.attempts >= this.options.maxAttempts) {
+      console.warn(`Giving up on ${userId} after ${peer.attempts} ICE restarts`);
+      this.forget(userId);
+      this.callbacks.onGiveUp(userId);
+      return;
+    }
+
+    peer.attempts += 1;
+    console.log(`ICE restart attempt ${peer.attempts} for ${userId}`);
+
+    this.callbacks.restartIce(userId).catch(error => {
+      console.error('Error restarting ICE for', userId, error);
+    });
+
+    // Check again after the backoff delay; reaching 'connected' cancels this
+    const delay = Math.min(
+      this.options.baseDelayMs * 2 ** (peer.attempts - 1),
+      this.options.maxDelayMs
+    );
+    this.clearTimer(peer);
+    peer.timer = setTimeout(() => {
+      peer.timer = null;
+      this.attempt(userId);
+    }, delay);
+  }
+
+  private clearTimer(peer: PeerReconnectState): void {
+    if (peer.timer) {
+      clearTimeout(peer.timer);
+      peer.timer = null;
+    }
+  }
+}
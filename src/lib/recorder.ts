@@ -0,0 +1,251 @@
+export const RECORDING_FRAME_RATE = 24;
+
+const CANVAS_WIDTH = 1280;
+const CANVAS_HEIGHT = 720;
+const TILE_GAP = 8;
+
+// Best first; MediaRecorder picks the codecs when only the container is given
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+const AUDIO_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm'];
+
+// One participant in the recording
+export interface RecordingSource {
+  id: string;
+  label: string;
+  stream: MediaStream;
+}
+
+interface RecordedParticipant {
+  label: string;
+  stream: MediaStream;
+  video: HTMLVideoElement | null;
+  audioTrack: MediaStreamTrack | null;
+  audioSource: MediaStreamAudioSourceNode | null;
+}
+
+const pickMimeType = (candidates: string[]): string | undefined =>
+  candidates.find(type => MediaRecorder.isTypeSupported(type));
+
+/**
+ * Records a call locally: every participant's video is drawn into a canvas
+ * grid and their audio is mixed through one AudioContext, and the combined
+ * stream goes through MediaRecorder. Voice calls record audio only.
+ */
+export class CallRecorder {
+  private audioOnly: boolean;
+  private participants: Map<string, RecordedParticipant> = new Map();
+  private audioContext: AudioContext | null = null;
+  private destination: MediaStreamAudioDestinationNode | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private canvasTrack: MediaStreamTrack | null = null;
+  private drawTimer: ReturnType<typeof setInterval> | null = null;
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+
+  constructor(audioOnly: boolean) {
+    this.audioOnly = audioOnly;
+  }
+
+  get isRecording(): boolean {
+    return this.recorder?.state === 'recording';
+  }
+
+  start(sources: RecordingSource[]): void {
+    if (this.recorder) return;
+
+    if (typeof MediaRecorder === 'undefined') {
+      throw new Error('Your browser does not support recording.');
+    }
+
+    const mimeType = pickMimeType(this.audioOnly ? AUDIO_MIME_TYPES : VIDEO_MIME_TYPES);
+    if (!mimeType) {
+      throw new Error('Your browser cannot record WebM.');
+    }
+
+    this.audioContext = new AudioContext();
+    this.destination = this.audioContext.createMediaStreamDestination();
+    const tracks = [...this.destination.stream.getAudioTracks()];
+
+    if (!this.audioOnly) {
+      this.canvas = document.createElement('canvas');
+      this.canvas.width = CANVAS_WIDTH;
+      this.canvas.height = CANVAS_HEIGHT;
+      this.canvasTrack = this.canvas.captureStream(RECORDING_FRAME_RATE).getVideoTracks()[0];
+      tracks.push(this.canvasTrack);
+      this.drawTimer = setInterval(this.draw, 1000 / RECORDING_FRAME_RATE);
+    }
+
+    this.setSources(sources);
+
+    this.chunks = [];
+    this.recorder = new MediaRecorder(new MediaStream(tracks), { mimeType });
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+    // Flush every second, so a crash loses at most that much
+    this.recorder.start(1000);
+  }
+
+  // Adds people who joined, drops people who left, and follows device switches
+  setSources(sources: RecordingSource[]): void {
+    if (!this.audioContext || !this.destination) return;
+    const ids = new Set(sources.map(source => source.id));
+
+    this.participants.forEach((participant, id) => {
+      if (!ids.has(id)) this.removeParticipant(id);
+    });
+
+    sources.forEach(({ id, label, stream }) => {
+      let participant = this.participants.get(id);
+      const audioTrack = stream.getAudioTracks()[0] || null;
+      // A new stream (device switch) or a track that arrived after the stream did
+      if (participant && (participant.stream !== stream || participant.audioTrack !== audioTrack)) {
+        this.removeParticipant(id);
+        participant = undefined;
+      }
+      if (participant) {
+        participant.label = label;
+        return;
+      }
+
+      let audioSource: MediaStreamAudioSourceNode | null = null;
+      if (audioTrack) {
+        audioSource = this.audioContext!.createMediaStreamSource(new MediaStream([audioTrack]));
+        audioSource.connect(this.destination!);
+      }
+
+      let video: HTMLVideoElement | null = null;
+      // Video may arrive later on the same stream; until then the tile shows the name
+      if (!this.audioOnly) {
+        video = document.createElement('video');
+        video.muted = true;
+        video.playsInline = true;
+        video.srcObject = stream;
+        video.play().catch(error => console.log('Recording video playback blocked:', error));
+      }
+
+      this.participants.set(id, { label, stream, video, audioTrack, audioSource });
+    });
+  }
+
+  // Finishes the recording; resolves with the WebM file
+  stop(): Promise<Blob> {
+    const recorder = this.recorder;
+    if (!recorder) {
+      return Promise.reject(new Error('Not recording'));
+    }
+
+    return new Promise((resolve) => {
+      const finish = () => {
+        resolve(new Blob(this.chunks, { type: recorder.mimeType }));
+        this.chunks = [];
+      };
+      // Already stopped (e.g. its tracks ended): 'stop' won't fire again
+      if (recorder.state === 'inactive') {
+        finish();
+      } else {
+        recorder.onstop = finish;
+        recorder.stop();
+      }
+      this.release();
+    });
+  }
+
+  private release(): void {
+    if (this.drawTimer) {
+      clearInterval(this.drawTimer);
+      this.drawTimer = null;
+    }
+    Array.from(this.participants.keys()).forEach(id => this.removeParticipant(id));
+    this.canvasTrack?.stop();
+    this.canvasTrack = null;
+    this.canvas = null;
+    this.audioContext?.close().catch(() => {});
+    this.audioContext = null;
+    this.destination = null;
+    this.recorder = null;
+  }
+
+  private removeParticipant(id: string): void {
+    const participant = this.participants.get(id);
+    if (!participant) return;
+
+    participant.audioSource?.disconnect();
+    if (participant.video) {
+      participant.video.pause();
+      participant.video.srcObject = null;
+    }
+    this.participants.delete(id);
+  }
+
+  private draw = () => {
+    const context = this.canvas?.getContext('2d');
+    if (!context) return;
+
+    const participants = Array.from(this.participants.values());
+    const cols = Math.max(1, Math.ceil(Math.sqrt(participants.length)));
+    const rows = Math.max(1, Math.ceil(participants.length / cols));
+    const tileWidth = (CANVAS_WIDTH - TILE_GAP * (cols + 1)) / cols;
+    const tileHeight = (CANVAS_HEIGHT - TILE_GAP * (rows + 1)) / rows;
+
+    context.fillStyle = '#111827';
+    context.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    participants.forEach((participant, index) => {
+      const x = TILE_GAP + (index % cols) * (tileWidth + TILE_GAP);
+      const y = TILE_GAP + Math.floor(index / cols) * (tileHeight + TILE_GAP);
+      const video = participant.video;
+      const videoTrack = participant.stream.getVideoTracks()[0];
+      const hasFrame = !!video && video.videoWidth > 0 && !!videoTrack?.enabled && !videoTrack.muted;
+
+      if (hasFrame) {
+        // Crop to fill the tile, like object-fit: cover
+        const scale = Math.max(tileWidth / video!.videoWidth, tileHeight / video!.videoHeight);
+        const cropWidth = tileWidth / scale;
+        const cropHeight = tileHeight / scale;
+        context.drawImage(
+          video!,
+          (video!.videoWidth - cropWidth) / 2,
+          (video!.videoHeight - cropHeight) / 2,
+          cropWidth,
+          cropHeight,
+          x,
+          y,
+          tileWidth,
+          tileHeight
+        );
+      } else {
+        context.fillStyle = '#1f2937';
+        context.fillRect(x, y, tileWidth, tileHeight);
+        context.fillStyle = '#9ca3af';
+        context.font = '600 28px sans-serif';
+        context.textAlign = 'center';
+        context.textBaseline = 'middle';
+        context.fillText(participant.label, x + tileWidth / 2, y + tileHeight / 2);
+      }
+
+      context.font = '500 18px sans-serif';
+      context.textAlign = 'left';
+      context.textBaseline = 'alphabetic';
+      const labelWidth = context.measureText(participant.label).width + 20;
+      context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      context.fillRect(x + 12, y + tileHeight - 44, labelWidth, 32);
+      context.fillStyle = '#ffffff';
+      context.fillText(participant.label, x + 22, y + tileHeight - 22);
+    });
+  };
+}
+
+// Saves a finished recording through the browser's download prompt
+export const downloadRecording = (blob: Blob, startedAt: Date): void => {
+  const stamp = startedAt.toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `call-${stamp}.webm`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the download a moment to start before releasing the data
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+};
@@ -0,0 +1,32 @@
+import { ParticipantCallState, ParticipantStateEntry } from '@/types';
+
+// Shared by the browser and the server-side sweeper, so no Firebase imports here
+
+const DEFAULT_RING_TIMEOUT_SECONDS = 45;
+
+// How long an invite rings before it counts as unanswered
+export const RING_TIMEOUT_MS =
+  (Number(process.env.NEXT_PUBLIC_RING_TIMEOUT_SECONDS) || DEFAULT_RING_TIMEOUT_SECONDS) * 1000;
+
+const PENDING_STATES: ParticipantCallState[] = ['invited', 'ringing'];
+
+export const isPendingState = (state: ParticipantCallState | undefined): boolean =>
+  state !== undefined && PENDING_STATES.includes(state);
+
+// When a pending invite stops ringing; measured from when it went out, so
+// moving from 'invited' to 'ringing' doesn't buy it more time
+export const getRingDeadline = (entry: ParticipantStateEntry): number =>
+  (entry.invitedAt ?? entry.updatedAt).toMillis() + RING_TIMEOUT_MS;
+
+export const isInviteExpired = (entry: ParticipantStateEntry, now: number = Date.now()): boolean =>
+  isPendingState(entry.state) && getRingDeadline(entry) <= now;
+
+// An invite that went unanswered - it rang out or was turned down - is a missed call for its invitee
+export const isMissedState = (state: ParticipantCallState | undefined): boolean =>
+  state === 'timed-out' || state === 'declined';
+
+// Stored on the call as `missedBy`, so call history can query one person's missed calls
+export const getMissedBy = (states: Record<string, Pick<ParticipantStateEntry, 'state'>>): string[] =>
+  Object.entries(states)
+    .filter(([, entry]) => isMissedState(entry.state))
+    .map(([userId]) => userId);
@@ -0,0 +1,194 @@
+import { db } from './firebase';
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  onSnapshot,
+  runTransaction,
+  Timestamp,
+} from 'firebase/firestore';
+import { Call, ParticipantStateEntry, Room, User } from '@/types';
+import { MAX_PARTICIPANTS } from './calls';
+import { HEARTBEAT_INTERVAL_MS, getPresenceStatus } from './presence';
+
+export const MAX_ROOM_NAME_LENGTH = 80;
+
+// Rooms hold at most MAX_PARTICIPANTS, the same mesh limit as group calls
+export const MIN_ROOM_SIZE = 2;
+
+export const getRoomUrl = (roomId: string): string => `${window.location.origin}/room/${roomId}`;
+
+export const createRoom = async (owner: User, name: string, maxParticipants: number): Promise<string> => {
+  const trimmed = name.trim().slice(0, MAX_ROOM_NAME_LENGTH);
+  if (!trimmed) {
+    throw new Error('Give the room a name');
+  }
+  if (maxParticipants < MIN_ROOM_SIZE || maxParticipants > MAX_PARTICIPANTS) {
+    throw new Error(`Rooms hold between ${MIN_ROOM_SIZE} and ${MAX_PARTICIPANTS} people`);
+  }
+
+  const roomRef = await addDoc(collection(db, 'rooms'), {
+    name: trimmed,
+    ownerId: owner.uid,
+    ownerName: owner.displayName,
+    maxParticipants,
+    activeCallId: null,
+    createdAt: Timestamp.now(),
+  });
+  return roomRef.id;
+};
+
+/**
+ * Live room document; `onChange` gets null when the room doesn't exist.
+ * Returns the unsubscribe function.
+ */
+export const subscribeToRoom = (
+  roomId: string,
+  onChange: (room: Room | null) => void,
+  onError?: (error: Error) => void
+): (() => void) =>
+  onSnapshot(
+    doc(db, 'rooms', roomId),
+    (snapshot) => {
+      onChange(snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as Room) : null);
+    },
+    onError
+  );
+
+/**
+ * Live list of who is inside a room's call. Like `subscribeToOnlineUsers`,
+ * people whose heartbeat has gone stale are dropped even though the call
+ * document still has them as 'joined', so their user documents are re-read
+ * periodically. Returns the unsubscribe function.
+ */
+export const subscribeToRoomOccupants = (
+  callId: string,
+  onChange: (users: User[]) => void
+): (() => void) => {
+  let joinedIds: string[] = [];
+  let latest = 0;
+
+  const load = () => {
+    // Lookups can overtake each other; only the newest counts
+    const request = ++latest;
+    Promise.all(joinedIds.map(id => getDoc(doc(db, 'users', id))))
+      .then((userDocs) => {
+        if (request !== latest) return;
+        const now = Date.now();
+        onChange(
+          userDocs
+            .filter(userDoc => userDoc.exists())
+            .map(userDoc => userDoc.data() as User)
+            .filter(user => getPresenceStatus(user, now) !== 'offline')
+        );
+      })
+      .catch(error => console.error('Error loading room occupants:', error));
+  };
+
+  const unsubscribe = onSnapshot(
+    doc(db, 'calls', callId),
+    (snapshot) => {
+      const call = snapshot.data() as Call | undefined;
+      joinedIds = call && call.status === 'active'
+        ? Object.entries(call.participantStates || {})
+            .filter(([, entry]) => entry.state === 'joined')
+            .map(([id]) => id)
+        : [];
+      load();
+    },
+    (error) => console.error('Error listening to room call:', error)
+  );
+  const recheck = setInterval(load, HEARTBEAT_INTERVAL_MS);
+
+  return () => {
+    latest++;
+    unsubscribe();
+    clearInterval(recheck);
+  };
+};
+
+/**
+ * Puts us in the room's live call, or starts a new one if the room is empty,
+ * and returns that call for `enterCall`. We're recorded as 'joined' straight
+ * away so the room can't fill up between checking the cap and connecting.
+ *
+ * Only people whose heartbeat is fresh count towards the cap: someone whose
+ * tab crashed stays 'joined' in the call document but isn't really inside.
+ */
+export const joinRoomCall = async (roomId: string, user: User): Promise<Call> => {
+  const roomRef = doc(db, 'rooms', roomId);
+
+  return runTransaction(db, async (transaction) => {
+    const roomSnapshot = await transaction.get(roomRef);
+    if (!roomSnapshot.exists()) {
+      throw new Error('Room not found');
+    }
+    const room = { id: roomSnapshot.id, ...roomSnapshot.data() } as Room;
+
+    const now = Timestamp.now();
+    const entry: ParticipantStateEntry = { state: 'joined', updatedAt: now };
+
+    if (room.activeCallId) {
+      const callRef = doc(db, 'calls', room.activeCallId);
+      const callSnapshot = await transaction.get(callRef);
+      const call = callSnapshot.exists() ? ({ id: callSnapshot.id, ...callSnapshot.data() } as Call) : null;
+
+      if (call && call.status === 'active') {
+        if (call.removedParticipants?.includes(user.uid)) {
+          throw new Error('The host removed you from this room');
+        }
+        if (call.locked) {
+          throw new Error('The host has locked this room');
+        }
+
+        const insideIds = Object.entries(call.participantStates || {})
+          .filter(([id, other]) => id !== user.uid && other.state === 'joined')
+          .map(([id]) => id);
+        const inside = await Promise.all(
+          insideIds.map(async (id) => {
+            const userSnapshot = await transaction.get(doc(db, 'users', id));
+            return userSnapshot.exists() && getPresenceStatus(userSnapshot.data() as User) !== 'offline';
+          })
+        );
+        if (inside.filter(Boolean).length >= room.maxParticipants) {
+          throw new Error(`The room is full (${room.maxParticipants} people)`);
+        }
+
+        const participants = call.participants.includes(user.uid)
+          ? call.participants
+          : [...call.participants, user.uid];
+        transaction.update(callRef, {
+          participants,
+          [`participantStates.${user.uid}`]: entry,
+        });
+        return {
+          ...call,
+          participants,
+          participantStates: { ...(call.participantStates || {}), [user.uid]: entry },
+        };
+      }
+    }
+
+    // Nobody's inside: we start the room's next call and become its host
+    const callRef = doc(collection(db, 'calls'));
+    const call: Omit<Call, 'id'> = {
+      callerId: user.uid,
+      hostId: user.uid,
+      callerName: user.displayName,
+      callerPhoto: user.photoURL,
+      participants: [user.uid],
+      type: 'video',
+      status: 'active',
+      participantStates: { [user.uid]: entry },
+      isGroupCall: true,
+      roomId,
+      createdAt: now,
+      startedAt: now,
+    };
+    transaction.set(callRef, call);
+    transaction.update(roomRef, { activeCallId: callRef.id });
+
+    return { id: callRef.id, ...call };
+  });
+};
@@ -0,0 +1,231 @@
+import { db } from './firebase';
+import {
+  addDoc,
+  collection,
+  doc,
+  increment,
+  onSnapshot,
+  query,
+  Timestamp,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { ScheduledCall, User } from '@/types';
+import { MAX_PARTICIPANTS } from './calls';
+import { downloadFile } from './file-transfer';
+import { MAX_ROOM_NAME_LENGTH, createRoom, getRoomUrl } from './rooms';
+
+// Invitees get a heads-up this long before the start, in the app and from the .ics alarm
+export const REMINDER_LEAD_MS = 5 * 60 * 1000;
+
+export const SCHEDULE_DURATIONS_MINUTES = [15, 30, 45, 60, 90, 120];
+
+// Where a scheduled call is relative to `now`
+export type ScheduledCallPhase = 'upcoming' | 'starting-soon' | 'live' | 'over' | 'cancelled';
+
+export const getScheduledCallPhase = (call: ScheduledCall, now: number = Date.now()): ScheduledCallPhase => {
+  if (now >= call.endAt.toMillis()) return 'over';
+  if (call.status === 'cancelled') return 'cancelled';
+
+  const startAt = call.startAt.toMillis();
+  if (now >= startAt) return 'live';
+  if (now >= startAt - REMINDER_LEAD_MS) return 'starting-soon';
+  return 'upcoming';
+};
+
+// The next moment `getScheduledCallPhase` changes for any of the calls, or null if none will
+export const getNextPhaseChange = (calls: ScheduledCall[], now: number = Date.now()): number | null => {
+  const times = calls
+    .flatMap(call =>
+      call.status === 'cancelled'
+        ? [call.endAt.toMillis()]
+        : [call.startAt.toMillis() - REMINDER_LEAD_MS, call.startAt.toMillis(), call.endAt.toMillis()]
+    )
+    .filter(time => time > now);
+  return times.length > 0 ? Math.min(...times) : null;
+};
+
+export const formatScheduledTime = (call: ScheduledCall): string => {
+  const start = call.startAt.toDate();
+  const time = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const day = start.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+  return `${day}, ${time(start)} - ${time(call.endAt.toDate())}`;
+};
+
+const validateTiming = (startAt: Date, durationMinutes: number) => {
+  if (Number.isNaN(startAt.getTime()) || startAt.getTime() <= Date.now()) {
+    throw new Error('Pick a start time in the future');
+  }
+  if (!SCHEDULE_DURATIONS_MINUTES.includes(durationMinutes)) {
+    throw new Error('Pick one of the listed durations');
+  }
+};
+
+const getEndAt = (startAt: Date, durationMinutes: number): Timestamp =>
+  Timestamp.fromMillis(startAt.getTime() + durationMinutes * 60 * 1000);
+
+/**
+ * Books a call for later. It gets its own meeting room, capped at the
+ * invitees plus the organizer, which everyone joins at start time; nobody is
+ * rung, so it doesn't matter who turns up first.
+ */
+export const scheduleCall = async (
+  organizer: User,
+  title: string,
+  startAt: Date,
+  durationMinutes: number,
+  participantIds: string[]
+): Promise<string> => {
+  validateTiming(startAt, durationMinutes);
+
+  const invitees = Array.from(new Set(participantIds)).filter(id => id !== organizer.uid);
+  if (invitees.length === 0) {
+    throw new Error('Please select at least one user');
+  }
+  if (invitees.length + 1 > MAX_PARTICIPANTS) {
+    throw new Error(`Maximum ${MAX_PARTICIPANTS} participants allowed in a group call`);
+  }
+
+  const participants = [organizer.uid, ...invitees];
+  const roomId = await createRoom(organizer, title, participants.length);
+  const now = Timestamp.now();
+
+  const scheduledRef = await addDoc(collection(db, 'scheduledCalls'), {
+    title: title.trim().slice(0, MAX_ROOM_NAME_LENGTH),
+    organizerId: organizer.uid,
+    organizerName: organizer.displayName,
+    participants,
+    roomId,
+    startAt: Timestamp.fromDate(startAt),
+    endAt: getEndAt(startAt, durationMinutes),
+    status: 'scheduled',
+    sequence: 0,
+    createdAt: now,
+    updatedAt: now,
+  });
+  return scheduledRef.id;
+};
+
+// Moves a scheduled call (organizer only); invitees see the new time through their listener
+export const rescheduleCall = async (
+  scheduledCallId: string,
+  startAt: Date,
+  durationMinutes: number
+): Promise<void> => {
+  validateTiming(startAt, durationMinutes);
+
+  await updateDoc(doc(db, 'scheduledCalls', scheduledCallId), {
+    startAt: Timestamp.fromDate(startAt),
+    endAt: getEndAt(startAt, durationMinutes),
+    sequence: increment(1),
+    updatedAt: Timestamp.now(),
+  });
+};
+
+// Kept rather than deleted, so invitees find out it was called off
+export const cancelScheduledCall = async (scheduledCallId: string): Promise<void> => {
+  await updateDoc(doc(db, 'scheduledCalls', scheduledCallId), {
+    status: 'cancelled',
+    sequence: increment(1),
+    updatedAt: Timestamp.now(),
+  });
+};
+
+/**
+ * Live list of scheduled calls `userId` is part of that hadn't finished when
+ * the subscription started, soonest first. Cancelled ones are included.
+ * Returns the unsubscribe function.
+ */
+export const subscribeToScheduledCalls = (
+  userId: string,
+  onChange: (calls: ScheduledCall[]) => void
+): (() => void) => {
+  const q = query(
+    collection(db, 'scheduledCalls'),
+    where('participants', 'array-contains', userId),
+    where('endAt', '>', Timestamp.now())
+  );
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const calls = snapshot.docs.map(callDoc => ({ id: callDoc.id, ...callDoc.data() } as ScheduledCall));
+      onChange(calls.sort((a, b) => a.startAt.toMillis() - b.startAt.toMillis()));
+    },
+    (error) => console.error('Error listening to scheduled calls:', error)
+  );
+};
+
+// iCalendar (RFC 5545) text values escape backslashes, separators and newlines
+const escapeIcsText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const formatIcsDate = (timestamp: Timestamp): string =>
+  timestamp.toDate().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Lines longer than 75 octets continue on the next line after a space
+const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+/**
+ * Calendar file for a scheduled call. The UID stays the same and SEQUENCE
+ * follows our own counter, so importing the file again after a reschedule or
+ * cancellation updates the existing calendar entry instead of adding one.
+ */
+export const buildIcs = (call: ScheduledCall): string => {
+  const url = getRoomUrl(call.roomId);
+  const cancelled = call.status === 'cancelled';
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//WebCall//Scheduled Calls//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${cancelled ? 'CANCEL' : 'PUBLISH'}`,
+    'BEGIN:VEVENT',
+    `UID:${call.id}@webcall`,
+    `DTSTAMP:${formatIcsDate(call.updatedAt)}`,
+    `DTSTART:${formatIcsDate(call.startAt)}`,
+    `DTEND:${formatIcsDate(call.endAt)}`,
+    `SEQUENCE:${call.sequence}`,
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    `SUMMARY:${escapeIcsText(call.title)}`,
+    `DESCRIPTION:${escapeIcsText(`Organized by ${call.organizerName}\nJoin: ${url}`)}`,
+    `LOCATION:${escapeIcsText(url)}`,
+    `URL:${url}`,
+    ...(cancelled
+      ? []
+      : [
+          'BEGIN:VALARM',
+          'ACTION:DISPLAY',
+          `DESCRIPTION:${escapeIcsText(call.title)}`,
+          `TRIGGER:-PT${REMINDER_LEAD_MS / 60000}M`,
+          'END:VALARM',
+        ]),
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+export const downloadIcs = (call: ScheduledCall): void => {
+  const name = call.title.replace(/[^\w\- ]+/g, '').trim() || 'call';
+  downloadFile(new Blob([buildIcs(call)], { type: 'text/calendar;charset=utf-8' }), `${name}.ics`);
+};
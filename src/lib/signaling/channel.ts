@@ -0,0 +1,27 @@
+import { SignalingMessage, SignalingTransport } from '@/types';
+
+export type SignalingHandler = (message: SignalingMessage) => void;
+
+/**
+ * Transport used by WebRTCService to exchange offers, answers, ICE candidates
+ * and call-control messages with the other participants of a call.
+ *
+ * Implementations must replay messages that were sent to this user before
+ * they subscribed, because callees join a call after the caller has already
+ * sent their offers.
+ */
+export interface SignalingChannel {
+  readonly transport: SignalingTransport;
+  subscribe(callId: string, handler: SignalingHandler): () => void;
+  send(message: SignalingMessage): Promise<void>;
+  close(): void;
+}
+
+// One field of a control message's payload, which may be anything a peer chose to send
+export const getPayloadField = (payload: unknown, key: string): unknown =>
+  typeof payload === 'object' && payload !== null ? (payload as Record<string, unknown>)[key] : undefined;
+
+// Messages are delivered to their recipient (or everyone on broadcast), never back to the sender
+export const isAddressedTo = (message: SignalingMessage, userId: string): boolean =>
+  message.fromUserId !== userId &&
+  (message.toUserId === null || message.toUserId === userId);
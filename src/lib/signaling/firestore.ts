@@ -0,0 +1,65 @@
+import { db } from '../firebase';
+import { collection, addDoc, onSnapshot, orderBy, query, where } from 'firebase/firestore';
+import { SignalingMessage } from '@/types';
+import { SignalingChannel, SignalingHandler, isAddressedTo } from './channel';
+
+// Subcollection of calls/{callId} that stores each message type
+const COLLECTIONS: Record<SignalingMessage['type'], string> = {
+  offer: 'offers',
+  answer: 'answers',
+  'ice-candidate': 'candidates',
+  control: 'control',
+};
+
+export class FirestoreSignalingChannel implements SignalingChannel {
+  readonly transport = 'firestore' as const;
+  private userId: string;
+  private unsubscribes: Set<() => void> = new Set();
+
+  constructor(userId: string) {
+    this.userId = userId;
+  }
+
+  subscribe(callId: string, handler: SignalingHandler): () => void {
+    const listeners = Object.values(COLLECTIONS).map((name) => {
+      const ref = collection(db, 'calls', callId, name);
+      // Control messages may also be broadcast (toUserId == null). They are
+      // replayed in send order, since e.g. a 'hangup' must not precede its 'join'.
+      const q =
+        name === 'control'
+          ? query(ref, where('toUserId', 'in', [this.userId, null]), orderBy('timestamp'))
+          : query(ref, where('toUserId', '==', this.userId));
+
+      return onSnapshot(
+        q,
+        (snapshot) => {
+          snapshot.docChanges().forEach((change) => {
+            if (change.type === 'added') {
+              const message = change.doc.data() as SignalingMessage;
+              if (isAddressedTo(message, this.userId)) {
+                handler(message);
+              }
+            }
+          });
+        },
+        (error) => console.error(`Error listening for ${name}:`, error)
+      );
+    });
+
+    const unsubscribe = () => {
+      listeners.forEach(stop => stop());
+      this.unsubscribes.delete(unsubscribe);
+    };
+    this.unsubscribes.add(unsubscribe);
+
+    return unsubscribe;
+  }
+
+  async send(message: SignalingMessage): Promise<void> {
+    await addDoc(collection(db, 'calls', message.callId, COLLECTIONS[message.type]), message);
+  }
+
+  close(): void {
+    this.unsubscribes.forEach(unsubscribe => unsubscribe());
+  }
+}
@@ -0,0 +1,43 @@
+import { SignalingTransport } from '@/types';
+import { SignalingChannel } from './channel';
+import { FirestoreSignalingChannel } from './firestore';
+import { WebSocketSignalingChannel } from './websocket';
+import { MemorySignalingChannel } from './memory';
+
+export type { SignalingChannel, SignalingHandler } from './channel';
+export { getPayloadField } from './channel';
+export { FirestoreSignalingChannel } from './firestore';
+export { WebSocketSignalingChannel } from './websocket';
+export { MemorySignalingChannel, resetMemorySignaling } from './memory';
+
+const TRANSPORTS: SignalingTransport[] = ['firestore', 'websocket', 'memory'];
+
+export const getSignalingTransport = (): SignalingTransport => {
+  const configured = process.env.NEXT_PUBLIC_SIGNALING_TRANSPORT || 'firestore';
+
+  if (!TRANSPORTS.includes(configured as SignalingTransport)) {
+    throw new Error(
+      `Unknown signaling transport "${configured}". Expected one of: ${TRANSPORTS.join(', ')}.`
+    );
+  }
+
+  return configured as SignalingTransport;
+};
+
+export const createSignalingChannel = (
+  userId: string,
+  transport: SignalingTransport = getSignalingTransport()
+): SignalingChannel => {
+  switch (transport) {
+    case 'websocket':
+      return new WebSocketSignalingChannel(
+        userId,
+        process.env.NEXT_PUBLIC_SIGNALING_URL || 'ws://localhost:8787'
+      );
+    case 'memory':
+      return new MemorySignalingChannel(userId);
+    case 'firestore':
+    default:
+      return new FirestoreSignalingChannel(userId);
+  }
+};
@@ -0,0 +1,71 @@
+import { SignalingMessage } from '@/types';
+import { SignalingChannel, SignalingHandler, isAddressedTo } from './channel';
+
+interface MemoryRoom {
+  history: SignalingMessage[];
+  subscribers: Set<{ userId: string; handler: SignalingHandler }>;
+}
+
+// Shared by every channel in this JavaScript realm, so several WebRTCService
+// instances in one page (or one test) can call each other
+const rooms: Map<string, MemoryRoom> = new Map();
+
+const getRoom = (callId: string): MemoryRoom => {
+  let room = rooms.get(callId);
+  if (!room) {
+    room = { history: [], subscribers: new Set() };
+    rooms.set(callId, room);
+  }
+  return room;
+};
+
+export class MemorySignalingChannel implements SignalingChannel {
+  readonly transport = 'memory' as const;
+  private userId: string;
+  private unsubscribes: Set<() => void> = new Set();
+
+  constructor(userId: string) {
+    this.userId = userId;
+  }
+
+  subscribe(callId: string, handler: SignalingHandler): () => void {
+    const room = getRoom(callId);
+    const subscriber = { userId: this.userId, handler };
+
+    // Replay what was sent before we joined, asynchronously like a real transport
+    const backlog = room.history.filter(message => isAddressedTo(message, this.userId));
+    queueMicrotask(() => {
+      if (room.subscribers.has(subscriber)) {
+        backlog.forEach(message => handler(message));
+      }
+    });
+    room.subscribers.add(subscriber);
+
+    const unsubscribe = () => {
+      room.subscribers.delete(subscriber);
+      this.unsubscribes.delete(unsubscribe);
+    };
+    this.unsubscribes.add(unsubscribe);
+
+    return unsubscribe;
+  }
+
+  async send(message: SignalingMessage): Promise<void> {
+    const room = getRoom(message.callId);
+    room.history.push(message);
+
+    room.subscribers.forEach((subscriber) => {
+      if (isAddressedTo(message, subscriber.userId)) {
+        queueMicrotask(() => subscriber.handler(message));
+      }
+    });
+  }
+
+  close(): void {
+    this.unsubscribes.forEach(unsubscribe => unsubscribe());
+  }
+}
+
+export const resetMemorySignaling = (): void => {
+  rooms.clear();
+};
@@ -0,0 +1,184 @@
+import { auth } from '../firebase';
+import { SignalingMessage } from '@/types';
+import { SignalingChannel, SignalingHandler, isAddressedTo } from './channel';
+
+// Wire protocol shared with server/signaling-server.js. The server takes our
+// identity from the verified ID token, never from the frame.
+type ClientFrame =
+  | { kind: 'join'; callId: string; idToken: string; after: number }
+  | { kind: 'leave'; callId: string }
+  | { kind: 'signal'; message: SignalingMessage };
+
+type ServerFrame =
+  | { kind: 'signal'; seq: number; message: SignalingMessage }
+  | { kind: 'error'; callId: string; reason: string };
+
+const RECONNECT_DELAY_MS = 1000;
+
+export class WebSocketSignalingChannel implements SignalingChannel {
+  readonly transport = 'websocket' as const;
+  private userId: string;
+  private url: string;
+  private socket: WebSocket | null = null;
+  private pendingFrames: string[] = [];
+  private handlers: Map<string, Set<SignalingHandler>> = new Map();
+  // Last sequence number seen per call, so a reconnect only replays what we missed
+  private lastSeq: Map<string, number> = new Map();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+  // Frames go out in order; a join waits for its ID token, and the signals after it wait for the join
+  private outgoing: Promise<void> = Promise.resolve();
+
+  constructor(userId: string, url: string) {
+    this.userId = userId;
+    this.url = url;
+  }
+
+  subscribe(callId: string, handler: SignalingHandler): () => void {
+    this.closed = false;
+
+    let callHandlers = this.handlers.get(callId);
+    if (!callHandlers) {
+      callHandlers = new Set();
+      this.handlers.set(callId, callHandlers);
+      this.lastSeq.set(callId, 0);
+      this.sendJoin(callId);
+    }
+    callHandlers.add(handler);
+
+    return () => {
+      const current = this.handlers.get(callId);
+      if (!current) return;
+
+      current.delete(handler);
+      if (current.size === 0) {
+        this.handlers.delete(callId);
+        this.lastSeq.delete(callId);
+        if (this.socket?.readyState === WebSocket.OPEN) {
+          const frame: ClientFrame = { kind: 'leave', callId };
+          this.socket.send(JSON.stringify(frame));
+        }
+      }
+    };
+  }
+
+  async send(message: SignalingMessage): Promise<void> {
+    this.sendFrame({ kind: 'signal', message });
+  }
+
+  close(): void {
+    this.closed = true;
+    this.handlers.clear();
+    this.lastSeq.clear();
+    this.pendingFrames = [];
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.socket) {
+      this.socket.close();
+      this.socket = null;
+    }
+  }
+
+  // Joins are only sent on an open socket; onopen (re)joins every subscribed call
+  private sendJoin(callId: string): void {
+    const socket = this.connect();
+    if (socket.readyState !== WebSocket.OPEN) return;
+
+    this.enqueue(async () => {
+      const idToken = await auth.currentUser?.getIdToken();
+      if (!idToken) {
+        throw new Error('Not signed in');
+      }
+      const frame: ClientFrame = { kind: 'join', callId, idToken, after: this.lastSeq.get(callId) ?? 0 };
+      return JSON.stringify(frame);
+    }, false);
+  }
+
+  private sendFrame(frame: ClientFrame): void {
+    this.connect();
+    this.enqueue(async () => JSON.stringify(frame), true);
+  }
+
+  // Sends on the open socket; otherwise keeps the frame for onopen if `keep`
+  private enqueue(build: () => Promise<string>, keep: boolean): void {
+    this.outgoing = this.outgoing
+      .then(async () => {
+        const data = await build();
+        if (this.socket?.readyState === WebSocket.OPEN) {
+          this.socket.send(data);
+        } else if (keep && !this.closed) {
+          this.pendingFrames.push(data);
+        }
+      })
+      .catch(error => console.error('Error sending signaling frame:', error));
+  }
+
+  private connect(): WebSocket {
+    if (
+      this.socket &&
+      (this.socket.readyState === WebSocket.OPEN || this.socket.readyState === WebSocket.CONNECTING)
+    ) {
+      return this.socket;
+    }
+
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      // Join (or rejoin after a reconnect) every subscribed call before flushing queued signals
+      const queued = this.pendingFrames;
+      this.pendingFrames = [];
+
+      this.handlers.forEach((_, callId) => this.sendJoin(callId));
+      queued.forEach(data => this.enqueue(async () => data, true));
+    };
+
+    socket.onmessage = (event) => {
+      let frame: ServerFrame;
+      try {
+        frame = JSON.parse(event.data);
+      } catch (error) {
+        console.error('Invalid signaling frame:', error);
+        return;
+      }
+
+      if (frame.kind === 'error') {
+        console.error(`Signaling server rejected call ${frame.callId}:`, frame.reason);
+        return;
+      }
+      if (frame.kind !== 'signal') return;
+
+      const { message } = frame;
+      const callHandlers = this.handlers.get(message.callId);
+      if (!callHandlers || !isAddressedTo(message, this.userId)) return;
+
+      this.lastSeq.set(message.callId, frame.seq);
+      callHandlers.forEach(handler => handler(message));
+    };
+
+    socket.onerror = (event) => {
+      console.error('Signaling socket error:', event);
+    };
+
+    socket.onclose = () => {
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+
+      if (!this.closed && this.handlers.size > 0 && !this.reconnectTimer) {
+        this.reconnectTimer = setTimeout(() => {
+          this.reconnectTimer = null;
+          if (!this.closed && this.handlers.size > 0) {
+            this.connect();
+          }
+        }, RECONNECT_DELAY_MS);
+      }
+    };
+
+    return socket;
+  }
+}
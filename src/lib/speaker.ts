@@ -0,0 +1,166 @@
+export const SPEAKER_POLL_MS = 100;
+
+export interface SpeakerOptions {
+  speakingLevel: number; // RMS level (0-1) above which someone counts as talking
+  switchAfterMs: number; // how long someone must be the loudest before taking over
+  smoothing: number; // weight of the previous level in the running average
+}
+
+export const DEFAULT_SPEAKER_OPTIONS: SpeakerOptions = {
+  speakingLevel: 0.015,
+  switchAfterMs: 800,
+  smoothing: 0.7,
+};
+
+interface AudioSource {
+  track: MediaStreamTrack;
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+  samples: Float32Array<ArrayBuffer>;
+  level: number;
+}
+
+/**
+ * Works out who is talking from the audio of every stream in the call (ours
+ * included) using Web Audio analysers.
+ *
+ * The active speaker only changes once someone else has been the loudest for
+ * `switchAfterMs`, so coughs and crosstalk don't make the layout jump around,
+ * and it stays on the last person who spoke through silences.
+ */
+export class ActiveSpeakerDetector {
+  private onChange: (userId: string | null) => void;
+  private options: SpeakerOptions;
+  private audioContext: AudioContext | null = null;
+  private sources: Map<string, AudioSource> = new Map();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private activeSpeakerId: string | null = null;
+  private candidateId: string | null = null;
+  private candidateSince = 0;
+
+  constructor(onChange: (userId: string | null) => void, options: Partial<SpeakerOptions> = {}) {
+    this.onChange = onChange;
+    this.options = { ...DEFAULT_SPEAKER_OPTIONS, ...options };
+  }
+
+  // Starts analysing any new streams and drops the ones no longer in the call
+  setStreams(streams: Map<string, MediaStream>): void {
+    this.sources.forEach((source, userId) => {
+      const track = streams.get(userId)?.getAudioTracks()[0];
+      if (source.track !== track) {
+        this.removeSource(userId);
+      }
+    });
+
+    streams.forEach((stream, userId) => {
+      const track = stream.getAudioTracks()[0];
+      if (!track || this.sources.has(userId)) return;
+      this.addSource(userId, track);
+    });
+
+    if (this.activeSpeakerId && !streams.has(this.activeSpeakerId)) {
+      this.setActiveSpeaker(null);
+    }
+
+    if (this.sources.size > 0 && !this.timer) {
+      this.timer = setInterval(this.poll, SPEAKER_POLL_MS);
+    } else if (this.sources.size === 0) {
+      this.stopTimer();
+    }
+  }
+
+  stop(): void {
+    this.stopTimer();
+    Array.from(this.sources.keys()).forEach(userId => this.removeSource(userId));
+    this.audioContext?.close().catch(() => {});
+    this.audioContext = null;
+    this.candidateId = null;
+    this.setActiveSpeaker(null);
+  }
+
+  private addSource(userId: string, track: MediaStreamTrack): void {
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext();
+    }
+    // Created outside a user gesture on some browsers
+    if (this.audioContext.state === 'suspended') {
+      this.audioContext.resume().catch(() => {});
+    }
+
+    try {
+      // Analyse just the audio track, so camera switches don't rebuild the graph
+      const source = this.audioContext.createMediaStreamSource(new MediaStream([track]));
+      const analyser = this.audioContext.createAnalyser();
+      analyser.fftSize = 512;
+      source.connect(analyser);
+      this.sources.set(userId, {
+        track,
+        source,
+        analyser,
+        samples: new Float32Array(analyser.fftSize),
+        level: 0,
+      });
+    } catch (error) {
+      console.error('Error analysing audio for', userId, error);
+    }
+  }
+
+  private removeSource(userId: string): void {
+    const source = this.sources.get(userId);
+    if (!source) return;
+    source.source.disconnect();
+    this.sources.delete(userId);
+  }
+
+  private poll = () => {
+    const { smoothing, speakingLevel, switchAfterMs } = this.options;
+    let loudestId: string | null = null;
+    let loudestLevel = speakingLevel;
+
+    for (const [userId, source] of Array.from(this.sources.entries())) {
+      source.analyser.getFloatTimeDomainData(source.samples);
+      let sum = 0;
+      for (let i = 0; i < source.samples.length; i++) {
+        sum += source.samples[i] * source.samples[i];
+      }
+      const rms = Math.sqrt(sum / source.samples.length);
+      source.level = source.level * smoothing + rms * (1 - smoothing);
+
+      if (source.level > loudestLevel) {
+        loudestId = userId;
+        loudestLevel = source.level;
+      }
+    }
+
+    // Silence, or the current speaker is still the loudest: nothing changes
+    if (loudestId === null || loudestId === this.activeSpeakerId) {
+      this.candidateId = null;
+      return;
+    }
+
+    const now = Date.now();
+    if (loudestId !== this.candidateId) {
+      this.candidateId = loudestId;
+      this.candidateSince = now;
+      return;
+    }
+
+    if (now - this.candidateSince >= switchAfterMs) {
+      this.candidateId = null;
+      this.setActiveSpeaker(loudestId);
+    }
+  };
+
+  private setActiveSpeaker(userId: string | null): void {
+    if (userId === this.activeSpeakerId) return;
+    this.activeSpeakerId = userId;
+    this.onChange(userId);
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import { IceCandidateType, PeerStats } from '@/types';
+
+export const STATS_INTERVAL_MS = 2000;
+
+type StatsHandler = (stats: Map<string, PeerStats>) => void;
+
+// Running totals from the previous poll, to turn counters into rates
+interface PeerCounters {
+  timestamp: number;
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+// lib.dom has no type for 'local-candidate' / 'remote-candidate' entries
+interface CandidateStats extends RTCStats {
+  candidateType?: IceCandidateType;
+}
+
+const toMs = (seconds: number | undefined): number | null =>
+  typeof seconds === 'number' ? Math.round(seconds * 1000) : null;
+
+// Signal bars from loss and latency, roughly what users perceive as call quality
+export const getQuality = (packetLoss: number, roundTripTime: number | null): PeerStats['quality'] => {
+  const rtt = roundTripTime ?? 0;
+  if (packetLoss < 0.02 && rtt < 150) return 4;
+  if (packetLoss < 0.05 && rtt < 300) return 3;
+  if (packetLoss < 0.1 && rtt < 500) return 2;
+  return 1;
+};
+
+/**
+ * Polls getStats() on every peer connection and reduces each report to the
+ * handful of numbers the UI (and bandwidth adaptation) care about.
+ */
+export class StatsCollector {
+  private getPeers: () => Map<string, RTCPeerConnection>;
+  private handler: StatsHandler;
+  private counters: Map<string, PeerCounters> = new Map();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(getPeers: () => Map<string, RTCPeerConnection>, handler: StatsHandler) {
+    this.getPeers = getPeers;
+    this.handler = handler;
+  }
+
+  start(intervalMs: number = STATS_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.poll().catch(error => console.error('Error collecting stats:', error));
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.counters.clear();
+  }
+
+  private async poll(): Promise<void> {
+    const peers = this.getPeers();
+    const results = new Map<string, PeerStats>();
+
+    await Promise.all(
+      Array.from(peers.entries()).map(async ([userId, connection]) => {
+        if (connection.connectionState === 'closed') return;
+        const report = await connection.getStats();
+        results.set(userId, this.summarize(userId, report));
+      })
+    );
+
+    // Stopped while getStats() was running
+    if (!this.timer) return;
+
+    // Forget peers that have gone away
+    Array.from(this.counters.keys()).forEach(userId => {
+      if (!peers.has(userId)) this.counters.delete(userId);
+    });
+
+    this.handler(results);
+  }
+
+  private summarize(userId: string, report: RTCStatsReport): PeerStats {
+    const totals: PeerCounters = {
+      timestamp: Date.now(),
+      bytesReceived: 0,
+      bytesSent: 0,
+      packetsReceived: 0,
+      packetsLost: 0,
+    };
+    let jitter: number | null = null;
+    let framesPerSecond: number | null = null;
+    let resolution: PeerStats['resolution'] = null;
+    let roundTripTime: number | null = null;
+    let availableOutgoingBitrate: number | null = null;
+    let selectedPairId: string | null = null;
+    const pairs = new Map<string, RTCIceCandidatePairStats>();
+    const candidates = new Map<string, CandidateStats>();
+
+    report.forEach((stat: RTCStats) => {
+      switch (stat.type) {
+        case 'inbound-rtp': {
+          const inbound = stat as RTCInboundRtpStreamStats;
+          totals.bytesReceived += inbound.bytesReceived || 0;
+          totals.packetsReceived += inbound.packetsReceived || 0;
+          totals.packetsLost += Math.max(0, inbound.packetsLost || 0);
+          if (inbound.kind === 'audio') {
+            jitter = toMs(inbound.jitter);
+          } else if (inbound.kind === 'video') {
+            framesPerSecond = inbound.framesPerSecond ?? framesPerSecond;
+            if (inbound.frameWidth && inbound.frameHeight) {
+              resolution = { width: inbound.frameWidth, height: inbound.frameHeight };
+            }
+          }
+          break;
+        }
+        case 'outbound-rtp':
+          totals.bytesSent += (stat as RTCOutboundRtpStreamStats).bytesSent || 0;
+          break;
+        case 'transport':
+          selectedPairId = (stat as RTCTransportStats).selectedCandidatePairId || selectedPairId;
+          break;
+        case 'candidate-pair': {
+          const pair = stat as RTCIceCandidatePairStats;
+          pairs.set(pair.id, pair);
+          // Firefox has no transport stats; the nominated pair is the selected one
+          if (pair.nominated && pair.state === 'succeeded' && !selectedPairId) {
+            selectedPairId = pair.id;
+          }
+          break;
+        }
+        case 'local-candidate':
+        case 'remote-candidate':
+          candidates.set(stat.id, stat as CandidateStats);
+          break;
+      }
+    });
+
+    const pair = selectedPairId ? pairs.get(selectedPairId) : undefined;
+    if (pair) {
+      roundTripTime = toMs(pair.currentRoundTripTime);
+      availableOutgoingBitrate = pair.availableOutgoingBitrate ?? null;
+    }
+
+    const previous = this.counters.get(userId);
+    this.counters.set(userId, totals);
+
+    let inboundBitrate = 0;
+    let outboundBitrate = 0;
+    let packetLoss = 0;
+    if (previous) {
+      const seconds = (totals.timestamp - previous.timestamp) / 1000;
+      if (seconds > 0) {
+        inboundBitrate = Math.max(0, ((totals.bytesReceived - previous.bytesReceived) * 8) / seconds);
+        outboundBitrate = Math.max(0, ((totals.bytesSent - previous.bytesSent) * 8) / seconds);
+      }
+      const lost = totals.packetsLost - previous.packetsLost;
+      const received = totals.packetsReceived - previous.packetsReceived;
+      packetLoss = lost > 0 ? lost / (lost + Math.max(0, received)) : 0;
+    }
+
+    return {
+      timestamp: totals.timestamp,
+      inboundBitrate,
+      outboundBitrate,
+      packetLoss,
+      jitter,
+      roundTripTime,
+      framesPerSecond,
+      resolution,
+      availableOutgoingBitrate,
+      localCandidateType: (pair && candidates.get(pair.localCandidateId)?.candidateType) || null,
+      remoteCandidateType: (pair && candidates.get(pair.remoteCandidateId)?.candidateType) || null,
+      // Rates need two samples, so the first poll has nothing to grade yet
+      quality: previous ? getQuality(packetLoss, roundTripTime) : 0,
+    };
+  }
+}
@@ -0,0 +1,66 @@
+import { Firestore, Timestamp, UpdateData } from 'firebase-admin/firestore';
+import { Call, ParticipantCallState, ParticipantStateEntry } from '@/types';
+import { RING_TIMEOUT_MS, getMissedBy, isInviteExpired, isPendingState } from './ringing';
+
+// Server-only: finalizes calls whose clients went away while they were ringing
+
+const BATCH_SIZE = 100;
+
+/**
+ * Marks calls that have been ringing for longer than the ring timeout as
+ * 'missed'. Normally the caller's browser does this when the timeout fires;
+ * this catches calls whose caller closed the tab or lost their connection
+ * first. A call still 'ringing' means nobody besides the caller ever
+ * answered, so 'missed' is always the right outcome.
+ *
+ * Returns the IDs of the calls that were finalized.
+ */
+export const sweepRingingCalls = async (db: Firestore, now: number = Date.now()): Promise<string[]> => {
+  const snapshot = await db
+    .collection('calls')
+    .where('status', '==', 'ringing')
+    .where('createdAt', '<=', Timestamp.fromMillis(now - RING_TIMEOUT_MS))
+    .limit(BATCH_SIZE)
+    .get();
+
+  const swept: string[] = [];
+
+  for (const callDoc of snapshot.docs) {
+    const finalized = await db.runTransaction(async (transaction) => {
+      const current = await transaction.get(callDoc.ref);
+      const call = current.data() as Call | undefined;
+      if (!call || call.status !== 'ringing') return false;
+
+      // Someone added to the call recently may still be ringing
+      const entries = Object.entries(call.participantStates || {});
+      if (entries.some(([, entry]) => isPendingState(entry.state) && !isInviteExpired(entry, now))) {
+        return false;
+      }
+
+      const endedAt = Timestamp.fromMillis(now);
+      const update: UpdateData<Call> = { status: 'missed', endedAt };
+      const states: Record<string, Pick<ParticipantStateEntry, 'state'>> = { ...call.participantStates };
+      entries.forEach(([userId, entry]) => {
+        let next: { state: ParticipantCallState; updatedAt: Timestamp };
+        if (isPendingState(entry.state)) {
+          next = { state: 'timed-out', updatedAt: endedAt };
+        } else if (entry.state === 'joined') {
+          // The caller's client is gone, otherwise it would have ended the call itself
+          next = { state: 'left', updatedAt: endedAt };
+        } else {
+          return;
+        }
+        update[`participantStates.${userId}`] = next;
+        states[userId] = next;
+      });
+      update.missedBy = getMissedBy(states);
+
+      transaction.update(callDoc.ref, update);
+      return true;
+    });
+
+    if (finalized) swept.push(callDoc.id);
+  }
+
+  return swept;
+};
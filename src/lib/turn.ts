@@ -0,0 +1,61 @@
+import { createHmac } from 'crypto';
+
+// Server-only: reads the TURN shared secret from the environment
+
+const DEFAULT_STUN_URLS = [
+  'stun:stun.l.google.com:19302',
+  'stun:stun1.l.google.com:19302',
+  'stun:stun2.l.google.com:19302',
+];
+
+const DEFAULT_TTL_SECONDS = 3600;
+
+export interface IceServersResponse {
+  iceServers: RTCIceServer[];
+  ttl: number; // seconds the TURN credentials stay valid
+}
+
+const parseUrls = (value: string | undefined): string[] =>
+  (value || '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean);
+
+/**
+ * Short-lived TURN credentials in the coturn REST API scheme
+ * (`use-auth-secret`): the username is "<expiry unix time>:<label>" and the
+ * password is base64(HMAC-SHA1(secret, username)).
+ */
+export const createTurnCredentials = (
+  secret: string,
+  label: string,
+  ttlSeconds: number,
+  now: number = Date.now()
+): { username: string; credential: string } => {
+  const expiresAt = Math.floor(now / 1000) + ttlSeconds;
+  const username = `${expiresAt}:${label}`;
+  const credential = createHmac('sha1', secret).update(username).digest('base64');
+
+  return { username, credential };
+};
+
+export const buildIceServers = (label: string): IceServersResponse => {
+  const stunUrls = parseUrls(process.env.STUN_URLS);
+  const turnUrls = parseUrls(process.env.TURN_URLS);
+  const secret = process.env.TURN_SECRET;
+  const ttl = Number(process.env.TURN_TTL_SECONDS) || DEFAULT_TTL_SECONDS;
+
+  const iceServers: RTCIceServer[] = [
+    { urls: stunUrls.length > 0 ? stunUrls : DEFAULT_STUN_URLS },
+  ];
+
+  if (turnUrls.length > 0) {
+    if (secret) {
+      iceServers.push({ urls: turnUrls, ...createTurnCredentials(secret, label, ttl) });
+    } else {
+      console.warn('TURN_URLS is set but TURN_SECRET is missing; serving STUN only');
+    }
+  }
+
+  return { iceServers, ttl };
+};
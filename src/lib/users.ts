@@ -0,0 +1,52 @@
+import { db } from './firebase';
+import { collection, getDocs, onSnapshot, query, where } from 'firebase/firestore';
+import { User } from '@/types';
+import { HEARTBEAT_INTERVAL_MS, getPresenceStatus } from './presence';
+
+/**
+ * Live list of online users, excluding `currentUserId`. Returns the
+ * unsubscribe function.
+ *
+ * `isOnline` alone can't be trusted (a crashed tab never clears it), so
+ * users whose heartbeat has gone stale are filtered out, and the list is
+ * re-checked periodically since staleness doesn't trigger a snapshot.
+ */
+export const subscribeToOnlineUsers = (
+  currentUserId: string,
+  onChange: (users: User[]) => void
+): (() => void) => {
+  const q = query(collection(db, 'users'), where('isOnline', '==', true));
+  let candidates: User[] = [];
+
+  const emit = () => {
+    const now = Date.now();
+    onChange(candidates.filter(user => getPresenceStatus(user, now) !== 'offline'));
+  };
+
+  const unsubscribe = onSnapshot(q, (snapshot) => {
+    const users: User[] = [];
+    snapshot.forEach((doc) => {
+      const userData = doc.data() as User;
+      if (userData.uid !== currentUserId) {
+        users.push(userData);
+      }
+    });
+    candidates = users;
+    emit();
+  });
+  const recheck = setInterval(emit, HEARTBEAT_INTERVAL_MS);
+
+  return () => {
+    unsubscribe();
+    clearInterval(recheck);
+  };
+};
+
+// Everyone who has signed in, excluding `currentUserId`, for invites that don't need them online
+export const getAllUsers = async (currentUserId: string): Promise<User[]> => {
+  const snapshot = await getDocs(collection(db, 'users'));
+  return snapshot.docs
+    .map(userDoc => userDoc.data() as User)
+    .filter(user => user.uid !== currentUserId)
+    .sort((a, b) => a.displayName.localeCompare(b.displayName));
+};
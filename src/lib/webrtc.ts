@@ -1,39 +1,139 @@
-import { db } from './firebase';
+import { createSignalingChannel, getPayloadField, SignalingChannel } from './signaling';
+import { ReconnectionManager } from './reconnection';
+import { StatsCollector } from './stats';
+import { BandwidthController } from './bandwidth';
+import { createChatMessageId, isChatMessage, MAX_CHAT_MESSAGE_LENGTH } from './chat';
+import { FileTransferManager } from './file-transfer';
+import { REACTION_MAX_AGE_MS } from './reactions';
+import { DEFAULT_ICE_CONFIGURATION, getIceConfiguration } from './ice';
 import {
-  collection,
-  doc,
-  setDoc,
-  getDoc,
-  onSnapshot,
-  query,
-  where,
-  updateDoc,
-  deleteDoc,
-  Timestamp,
-  addDoc,
-} from 'firebase/firestore';
-import { PeerConnection } from '@/types';
-
-const ICE_SERVERS: RTCConfiguration = {
-  iceServers: [
-    { urls: 'stun:stun.l.google.com:19302' },
-    { urls: 'stun:stun1.l.google.com:19302' },
-    { urls: 'stun:stun2.l.google.com:19302' },
-  ],
+  ChatMessage,
+  ControlSignal,
+  DataChannelMessage,
+  DeviceSelection,
+  FileTransfer,
+  IceCandidateStats,
+  ParticipantMediaState,
+  PeerConnection,
+  PeerStats,
+  PeerStatus,
+  SignalingControlAction,
+  SignalingEnvelope,
+  SignalingMessage,
+} from '@/types';
+
+const AUDIO_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+const VIDEO_CONSTRAINTS: MediaTrackConstraints = {
+  width: { ideal: 1280 },
+  height: { ideal: 720 },
+  frameRate: { ideal: 30 },
+};
+
+type RemoteStreamHandler = (userId: string, stream: MediaStream) => void;
+type PeerClosedHandler = (userId: string) => void;
+type PeerStatusHandler = (userId: string, status: PeerStatus) => void;
+type ScreenShareHandler = (screenStream: MediaStream | null) => void;
+type StatsHandler = (stats: Map<string, PeerStats>) => void;
+type AudioOnlyHandler = (userId: string, audioOnly: boolean) => void;
+type ChatHandler = (message: ChatMessage) => void;
+type FileTransferHandler = (transfer: FileTransfer) => void;
+type ControlHandler = (message: ControlSignal) => void;
+
+const INITIAL_MEDIA_STATE: ParticipantMediaState = {
+  isScreenSharing: false,
+  isMuted: false,
+  isVideoOff: false,
+};
+
+// Rejects a media-state payload that isn't exactly our three flags
+export const isParticipantMediaState = (value: unknown): value is ParticipantMediaState => {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const keys = Object.keys(value);
+  return (
+    keys.length === Object.keys(INITIAL_MEDIA_STATE).length &&
+    keys.every(key => key in INITIAL_MEDIA_STATE && typeof (value as Record<string, unknown>)[key] === 'boolean')
+  );
 };
 
 export class WebRTCService {
   private peerConnections: Map<string, PeerConnection> = new Map();
   private localStream: MediaStream | null = null;
+  private screenStream: MediaStream | null = null;
+  private mediaState: ParticipantMediaState = INITIAL_MEDIA_STATE;
   private callId: string | null = null;
   private userId: string;
+  private signaling: SignalingChannel;
+  private iceConfiguration: RTCConfiguration = DEFAULT_ICE_CONFIGURATION;
   private unsubscribes: (() => void)[] = [];
+  private remoteStreamHandlers: Set<RemoteStreamHandler> = new Set();
+  private peerClosedHandlers: Set<PeerClosedHandler> = new Set();
+  private controlHandlers: Set<ControlHandler> = new Set();
+  private peerStatusHandlers: Set<PeerStatusHandler> = new Set();
+  private screenShareHandlers: Set<ScreenShareHandler> = new Set();
+  private statsHandlers: Set<StatsHandler> = new Set();
+  private audioOnlyHandlers: Set<AudioOnlyHandler> = new Set();
+  private chatHandlers: Set<ChatHandler> = new Set();
+  private fileTransferHandlers: Set<FileTransferHandler> = new Set();
+  // Chat messages already delivered; each one may arrive once from every peer
+  private seenMessageIds: Set<string> = new Set();
+  private reconnection: ReconnectionManager;
+  private stats: StatsCollector;
+  private bandwidth: BandwidthController;
+  private fileTransfers: FileTransferManager;
+  private latestStats: Map<string, PeerStats> = new Map();
+  // Candidates that arrived before their peer connection or remote description, per peer
+  private pendingCandidates: Map<string, RTCIceCandidateInit[]> = new Map();
+  private candidateStats: Map<string, IceCandidateStats> = new Map();
+  // Random per joinCall, so a peer that reloads and rejoins is recognised as a new session
+  private sessionId: string | null = null;
+  private peerSessions: Map<string, string> = new Map();
+  // Removed by the host: their connection is closed and their signaling ignored
+  private blockedPeers: Set<string> = new Set();
 
-  constructor(userId: string) {
+  constructor(userId: string, signaling: SignalingChannel = createSignalingChannel(userId)) {
     this.userId = userId;
+    this.signaling = signaling;
+    this.reconnection = new ReconnectionManager({
+      restartIce: (remoteUserId) => this.restartIce(remoteUserId),
+      onStatusChange: (remoteUserId, status) => {
+        this.peerStatusHandlers.forEach(handler => handler(remoteUserId, status));
+      },
+      onGiveUp: (remoteUserId) => this.closePeerConnection(remoteUserId),
+    });
+    this.stats = new StatsCollector(
+      () => new Map(Array.from(this.peerConnections.entries()).map(([id, peer]) => [id, peer.connection])),
+      (stats) => {
+        this.latestStats = stats;
+        this.statsHandlers.forEach(handler => handler(stats));
+        this.bandwidth.update(this.getVideoSenders(), stats, this.screenStream !== null).catch(error => {
+          console.error('Error adapting video to bandwidth:', error);
+        });
+      }
+    );
+    // Tell the peer why our video stopped, so they don't stare at a frozen frame
+    this.bandwidth = new BandwidthController((remoteUserId, audioOnly) => {
+      const payload = { paused: audioOnly, sessionId: this.peerSessions.get(remoteUserId) };
+      this.sendControl('video-paused', payload, remoteUserId).catch(error => {
+        console.error('Error sending video-paused to', remoteUserId, error);
+      });
+      this.audioOnlyHandlers.forEach(handler => handler(remoteUserId, audioOnly));
+    });
+    this.fileTransfers = new FileTransferManager({
+      getChannel: (remoteUserId) => this.peerConnections.get(remoteUserId)?.fileChannel,
+      onChange: (transfer) => this.fileTransferHandlers.forEach(handler => handler(transfer)),
+    });
   }
 
-  async initializeLocalStream(audioOnly: boolean = false): Promise<MediaStream> {
+  async initializeLocalStream(
+    audioOnly: boolean = false,
+    preferredDevices: Partial<DeviceSelection> = {}
+  ): Promise<MediaStream> {
     try {
       // Check if getUserMedia is supported
       if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
@@ -58,16 +158,15 @@ export class WebRTCService {
         this.localStream.getTracks().forEach(track => track.stop());
       }
 
+      // Preferred devices are only "ideal", so an unplugged one falls back to the default
       const constraints: MediaStreamConstraints = {
         audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
+          ...AUDIO_CONSTRAINTS,
+          ...(preferredDevices.audioinput && { deviceId: { ideal: preferredDevices.audioinput } }),
         },
         video: audioOnly ? false : {
-          width: { ideal: 1280 },
-          height: { ideal: 720 },
-          frameRate: { ideal: 30 },
+          ...VIDEO_CONSTRAINTS,
+          ...(preferredDevices.videoinput && { deviceId: { ideal: preferredDevices.videoinput } }),
         },
       };
 
@@ -119,7 +218,7 @@ export class WebRTCService {
       this.closePeerConnection(remoteUserId);
     }
 
-    const peerConnection = new RTCPeerConnection(ICE_SERVERS);
+    const peerConnection = new RTCPeerConnection(this.iceConfiguration);
 
     // Add local tracks to peer connection
     if (this.localStream) {
@@ -141,15 +240,22 @@ export class WebRTCService {
       });
     }
 
+    // Peers that connect mid-share should see the screen, not the camera
+    const screenTrack = this.screenStream?.getVideoTracks()[0];
+    if (screenTrack) {
+      this.getSender(peerConnection, 'video')?.replaceTrack(screenTrack).catch(error => {
+        console.error('Error sending screen track:', error);
+      });
+    }
+
     // Handle ICE candidates
     peerConnection.onicecandidate = async (event) => {
       if (event.candidate && this.callId) {
         try {
-          await addDoc(collection(db, 'calls', this.callId, 'candidates'), {
+          await this.signaling.send({
+            ...this.envelope(remoteUserId),
+            type: 'ice-candidate',
             candidate: event.candidate.toJSON(),
-            fromUserId: this.userId,
-            toUserId: remoteUserId,
-            timestamp: Timestamp.now(),
           });
         } catch (error) {
           console.error('Error sending ICE candidate:', error);
@@ -157,13 +263,25 @@ export class WebRTCService {
       }
     };
 
+    // Handle remote media. Registered before any remote description is set,
+    // because setRemoteDescription can fire ontrack immediately.
+    peerConnection.ontrack = (event) => {
+      console.log('Received remote track:', event.track.kind);
+
+      const peerConnectionData = this.peerConnections.get(remoteUserId);
+      if (peerConnectionData && event.streams && event.streams[0]) {
+        peerConnectionData.stream = event.streams[0];
+        this.remoteStreamHandlers.forEach(handler => handler(remoteUserId, event.streams[0]));
+      }
+    };
+
     // Handle connection state changes
+    // Disconnects and failures are retried with ICE restarts instead of tearing the peer down
     peerConnection.onconnectionstatechange = () => {
       console.log(`Connection state for ${remoteUserId}:`, peerConnection.connectionState);
-      
-      if (peerConnection.connectionState === 'disconnected' || 
-          peerConnection.connectionState === 'failed') {
-        this.closePeerConnection(remoteUserId);
+
+      if (this.peerConnections.get(remoteUserId)?.connection === peerConnection) {
+        this.reconnection.handleConnectionState(remoteUserId, peerConnection.connectionState);
       }
     };
 
@@ -176,38 +294,158 @@ export class WebRTCService {
     this.peerConnections.set(remoteUserId, {
       userId: remoteUserId,
       connection: peerConnection,
+      dataChannel: this.createDataChannel(remoteUserId, peerConnection),
+      fileChannel: this.createFileChannel(remoteUserId, peerConnection),
     });
 
     return peerConnection;
   }
 
-  async createOffer(remoteUserId: string): Promise<RTCSessionDescriptionInit> {
+  // Pre-negotiated on both sides with the same id, so neither has to wait
+  // for ondatachannel and an ICE restart keeps the same channel
+  private createDataChannel(remoteUserId: string, peerConnection: RTCPeerConnection): RTCDataChannel {
+    const channel = peerConnection.createDataChannel('call-data', { negotiated: true, id: 0, ordered: true });
+    channel.onmessage = (event) => this.handleDataMessage(remoteUserId, event.data);
+    channel.onerror = (event) => console.error('Data channel error for', remoteUserId, event);
+    return channel;
+  }
+
+  // File chunks are binary; the rest of the file protocol is JSON on the same channel
+  private createFileChannel(remoteUserId: string, peerConnection: RTCPeerConnection): RTCDataChannel {
+    const channel = peerConnection.createDataChannel('file-transfer', { negotiated: true, id: 1, ordered: true });
+    channel.binaryType = 'arraybuffer';
+    channel.onmessage = (event) => this.fileTransfers.handleMessage(remoteUserId, event.data);
+    channel.onerror = (event) => console.error('File channel error for', remoteUserId, event);
+    channel.onclose = () => {
+      // closePeerConnection has already failed the transfers if the whole connection went
+      if (this.peerConnections.get(remoteUserId)?.fileChannel === channel) {
+        this.fileTransfers.failPeer(remoteUserId);
+      }
+    };
+    return channel;
+  }
+
+  private handleDataMessage(remoteUserId: string, raw: unknown): void {
+    let data: DataChannelMessage;
+    try {
+      data = JSON.parse(String(raw));
+    } catch (error) {
+      console.warn('Ignoring malformed data channel message from', remoteUserId);
+      return;
+    }
+
+    switch (data.type) {
+      case 'chat': {
+        const message = data.message;
+        if (!isChatMessage(message) || this.seenMessageIds.has(message.id)) return;
+        if (!this.isPlausibleSender(remoteUserId, message.senderId)) {
+          console.warn(`Ignoring chat message from ${remoteUserId} claiming to be from ${message.senderId}`);
+          return;
+        }
+        this.seenMessageIds.add(message.id);
+
+        // Pass it on, in case the sender's link to someone else is down
+        this.broadcastData(data, [remoteUserId, message.senderId]);
+        this.chatHandlers.forEach(handler => handler(message));
+        break;
+      }
+    }
+  }
+
+  // A chat message comes from whoever's channel it arrived on. Only a peer we
+  // can't hear from directly may have it relayed by someone else, so nobody
+  // can put words in the mouth of a participant whose channel is working.
+  private isPlausibleSender(remoteUserId: string, senderId: string): boolean {
+    if (senderId === remoteUserId) return true;
+    if (senderId === this.userId || this.blockedPeers.has(senderId)) return false;
+    return this.peerConnections.get(senderId)?.dataChannel?.readyState !== 'open';
+  }
+
+  private broadcastData(data: DataChannelMessage, exceptUserIds: string[] = []): void {
+    const payload = JSON.stringify(data);
+    this.peerConnections.forEach(({ userId, dataChannel }) => {
+      if (dataChannel?.readyState !== 'open' || exceptUserIds.includes(userId)) return;
+      try {
+        dataChannel.send(payload);
+      } catch (error) {
+        console.error('Error sending data to', userId, error);
+      }
+    });
+  }
+
+  /**
+   * Sends a chat message to everyone in the call. Every receiver relays it
+   * to the rest of the mesh once, so it still gets through while a direct
+   * connection is reconnecting; the message ID makes the copies harmless.
+   */
+  sendChatMessage(text: string): ChatMessage {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      throw new Error('Message is empty');
+    }
+    if (trimmed.length > MAX_CHAT_MESSAGE_LENGTH) {
+      throw new Error(`Messages can be at most ${MAX_CHAT_MESSAGE_LENGTH} characters`);
+    }
+
+    const message: ChatMessage = {
+      id: createChatMessageId(),
+      senderId: this.userId,
+      text: trimmed,
+      timestamp: Date.now(),
+    };
+    this.seenMessageIds.add(message.id);
+    this.broadcastData({ type: 'chat', message });
+    return message;
+  }
+
+  // Sends a file to one participant; resolves when the last chunk is queued
+  sendFile(remoteUserId: string, file: File): Promise<void> {
+    return this.fileTransfers.sendFile(remoteUserId, file);
+  }
+
+  cancelFileTransfer(transferId: string): void {
+    this.fileTransfers.cancel(transferId);
+  }
+
+  async createOffer(remoteUserId: string, iceRestart: boolean = false): Promise<RTCSessionDescriptionInit> {
     const peerConnection = this.createPeerConnection(remoteUserId);
 
     try {
       const offer = await peerConnection.createOffer({
         offerToReceiveAudio: true,
         offerToReceiveVideo: true,
+        iceRestart,
       });
 
       await peerConnection.setLocalDescription(offer);
-      return offer;
+      return { type: offer.type, sdp: offer.sdp };
     } catch (error) {
       console.error('Error creating offer:', error);
       throw error;
     }
   }
 
+  async sendOffer(remoteUserId: string, iceRestart: boolean = false): Promise<void> {
+    const offer = await this.createOffer(remoteUserId, iceRestart);
+
+    await this.signaling.send({
+      ...this.envelope(remoteUserId),
+      type: 'offer',
+      description: offer,
+    });
+  }
+
   async createAnswer(remoteUserId: string, offer: RTCSessionDescriptionInit): Promise<RTCSessionDescriptionInit> {
     const peerConnection = this.createPeerConnection(remoteUserId);
 
     try {
       await peerConnection.setRemoteDescription(new RTCSessionDescription(offer));
+      await this.flushPendingCandidates(remoteUserId);
       
       const answer = await peerConnection.createAnswer();
       await peerConnection.setLocalDescription(answer);
       
-      return answer;
+      return { type: answer.type, sdp: answer.sdp };
     } catch (error) {
       console.error('Error creating answer:', error);
       throw error;
@@ -228,6 +466,7 @@ export class WebRTCService {
       // Only set remote description if we're in the right state
       if (peerConnection.signalingState === 'have-local-offer') {
         await peerConnection.setRemoteDescription(new RTCSessionDescription(answer));
+        await this.flushPendingCandidates(remoteUserId);
       } else {
         console.warn(`Cannot set remote description in state: ${peerConnection.signalingState}`);
       }
@@ -238,65 +477,293 @@ export class WebRTCService {
 
   async handleIceCandidate(remoteUserId: string, candidate: RTCIceCandidateInit): Promise<void> {
     const peerConnectionData = this.peerConnections.get(remoteUserId);
-    
-    if (!peerConnectionData) {
-      console.error('No peer connection found for', remoteUserId);
+
+    // Signaling does not guarantee candidates arrive after the offer/answer they
+    // belong to, so hold them until the remote description is set
+    if (!peerConnectionData || !peerConnectionData.connection.remoteDescription) {
+      const pending = this.pendingCandidates.get(remoteUserId) || [];
+      pending.push(candidate);
+      this.pendingCandidates.set(remoteUserId, pending);
+      this.getCandidateStats(remoteUserId).queued++;
       return;
     }
 
-    const peerConnection = peerConnectionData.connection;
+    await this.addIceCandidate(remoteUserId, peerConnectionData.connection, candidate);
+  }
+
+  private async addIceCandidate(
+    remoteUserId: string,
+    peerConnection: RTCPeerConnection,
+    candidate: RTCIceCandidateInit
+  ): Promise<void> {
+    const stats = this.getCandidateStats(remoteUserId);
 
     try {
-      if (peerConnection.remoteDescription) {
-        await peerConnection.addIceCandidate(new RTCIceCandidate(candidate));
-      }
+      await peerConnection.addIceCandidate(new RTCIceCandidate(candidate));
+      stats.applied++;
     } catch (error) {
+      stats.rejected++;
       console.error('Error adding ICE candidate:', error);
     }
   }
 
-  setupRemoteStreamListener(remoteUserId: string, onRemoteStream: (stream: MediaStream) => void): void {
+  private async flushPendingCandidates(remoteUserId: string): Promise<void> {
+    const pending = this.pendingCandidates.get(remoteUserId);
     const peerConnectionData = this.peerConnections.get(remoteUserId);
-    
-    if (!peerConnectionData) {
-      console.error('No peer connection found for', remoteUserId);
+    if (!pending || !peerConnectionData) return;
+
+    this.pendingCandidates.delete(remoteUserId);
+    console.log(`Applying ${pending.length} buffered ICE candidates for ${remoteUserId}`);
+
+    for (const candidate of pending) {
+      await this.addIceCandidate(remoteUserId, peerConnectionData.connection, candidate);
+    }
+  }
+
+  private getCandidateStats(remoteUserId: string): IceCandidateStats {
+    let stats = this.candidateStats.get(remoteUserId);
+    if (!stats) {
+      stats = { queued: 0, applied: 0, rejected: 0 };
+      this.candidateStats.set(remoteUserId, stats);
+    }
+    return stats;
+  }
+
+  // Per-peer counters for diagnosing connectivity; a healthy call has no rejections
+  getIceCandidateStats(): Map<string, IceCandidateStats> {
+    return new Map(
+      Array.from(this.candidateStats.entries()).map(([userId, stats]) => [userId, { ...stats }])
+    );
+  }
+
+  private async handleOffer(remoteUserId: string, offer: RTCSessionDescriptionInit): Promise<void> {
+    try {
+      const answer = await this.createAnswer(remoteUserId, offer);
+
+      await this.signaling.send({
+        ...this.envelope(remoteUserId),
+        type: 'answer',
+        description: answer,
+      });
+    } catch (error) {
+      console.error('Error answering offer from', remoteUserId, error);
+    }
+  }
+
+  private handleSignal(message: SignalingMessage): void {
+    if (this.blockedPeers.has(message.fromUserId)) return;
+
+    switch (message.type) {
+      case 'offer':
+        if (!this.isCurrentSession(message)) break;
+        // An offer can overtake its sender's 'join'; it proves the session just as well
+        if (!this.peerSessions.has(message.fromUserId) && message.fromSessionId) {
+          this.handlePeerJoined(message.fromUserId, message.fromSessionId);
+        }
+        this.handleOffer(message.fromUserId, message.description);
+        break;
+      case 'answer':
+        if (!this.isCurrentSession(message)) break;
+        this.handleAnswer(message.fromUserId, message.description);
+        break;
+      case 'ice-candidate':
+        if (!this.isCurrentSession(message)) break;
+        this.handleIceCandidate(message.fromUserId, message.candidate);
+        break;
+      case 'control':
+        if (message.action === 'join') {
+          const sessionId = getPayloadField(message.payload, 'sessionId');
+          this.handlePeerJoined(message.fromUserId, typeof sessionId === 'string' ? sessionId : undefined);
+        } else if (message.action === 'restart-ice') {
+          // Replayed from an earlier session; restarting the current connection would only disrupt it
+          if (!this.isCurrentSession(message)) break;
+          this.restartIce(message.fromUserId).catch(error => {
+            console.error('Error restarting ICE for', message.fromUserId, error);
+          });
+        } else if (message.action === 'hangup') {
+          this.peerSessions.delete(message.fromUserId);
+          this.pendingCandidates.delete(message.fromUserId);
+          this.closePeerConnection(message.fromUserId);
+        } else if (
+          message.action === 'video-paused' &&
+          getPayloadField(message.payload, 'sessionId') !== this.sessionId
+        ) {
+          // Replayed from history and meant for an earlier session of ours
+          break;
+        } else if (message.action === 'reaction' && Date.now() - message.timestamp > REACTION_MAX_AGE_MS) {
+          break;
+        } else if (message.action === 'hand' && !this.isCurrentHand(message)) {
+          // A hand raised in an earlier session of its owner
+          break;
+        }
+        this.controlHandlers.forEach(handler => handler(message));
+        break;
+    }
+  }
+
+  // SDP, candidates and ICE restart requests must be addressed to this session of ours and come
+  // from the sender's latest one, so nothing replayed from an earlier session
+  // (ours or theirs) reaches the current peer connection. A sender whose
+  // 'join' hasn't arrived yet can only have addressed us after seeing ours.
+  private isCurrentSession(message: SignalingMessage): boolean {
+    if (!this.sessionId || message.toSessionId !== this.sessionId) return false;
+
+    const knownSession = this.peerSessions.get(message.fromUserId);
+    return !knownSession || knownSession === message.fromSessionId;
+  }
+
+  private isCurrentHand(message: ControlSignal): boolean {
+    const ownerId = getPayloadField(message.payload, 'userId');
+    if (typeof ownerId !== 'string') return false;
+
+    const ownerSession = ownerId === this.userId ? this.sessionId : this.peerSessions.get(ownerId);
+    return !!ownerSession && getPayloadField(message.payload, 'sessionId') === ownerSession;
+  }
+
+  // Mesh rule: of every pair of participants, the one with the smaller uid
+  // makes the offer. Each side learns about the other from its 'join'
+  // message (live or replayed), so exactly one offer is sent per pair no
+  // matter who joined first.
+  private shouldOffer(remoteUserId: string): boolean {
+    return this.userId < remoteUserId;
+  }
+
+  // Only the offering side of a pair restarts ICE; the other side asks it to
+  private async restartIce(remoteUserId: string): Promise<void> {
+    const peerConnectionData = this.peerConnections.get(remoteUserId);
+    if (!peerConnectionData || !this.callId) return;
+
+    if (!this.shouldOffer(remoteUserId)) {
+      await this.sendControl('restart-ice', null, remoteUserId);
       return;
     }
 
     const peerConnection = peerConnectionData.connection;
 
-    peerConnection.ontrack = (event) => {
-      console.log('Received remote track:', event.track.kind);
-      
-      if (event.streams && event.streams[0]) {
-        peerConnectionData.stream = event.streams[0];
-        onRemoteStream(event.streams[0]);
-      }
-    };
+    if (peerConnection.signalingState === 'have-remote-offer') {
+      console.warn(`Skipping ICE restart for ${remoteUserId} while answering an offer`);
+      return;
+    }
+
+    // Long calls can outlive the TURN credentials the connection was built with
+    this.iceConfiguration = await getIceConfiguration();
+    peerConnection.setConfiguration(this.iceConfiguration);
+
+    // A previous restart offer was never answered; start over
+    if (peerConnection.signalingState === 'have-local-offer') {
+      await peerConnection.setLocalDescription({ type: 'rollback' });
+    }
+
+    await this.sendOffer(remoteUserId, true);
   }
 
-  listenForCandidates(callId: string, remoteUserId: string): void {
-    const candidatesRef = collection(db, 'calls', callId, 'candidates');
-    const q = query(
-      candidatesRef,
-      where('toUserId', '==', this.userId),
-      where('fromUserId', '==', remoteUserId)
-    );
+  private handlePeerJoined(remoteUserId: string, sessionId: string | undefined): void {
+    const knownSession = this.peerSessions.get(remoteUserId);
+    if (sessionId) {
+      this.peerSessions.set(remoteUserId, sessionId);
+    }
 
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      snapshot.docChanges().forEach((change) => {
-        if (change.type === 'added') {
-          const data = change.doc.data();
-          this.handleIceCandidate(remoteUserId, data.candidate);
-        }
+    // A new session from a peer we are connected to means their old connection
+    // is gone, along with any candidates still buffered for it. (Ones buffered
+    // while we knew no session for them were addressed to us, so they stay.)
+    if (knownSession && sessionId && knownSession !== sessionId) {
+      this.pendingCandidates.delete(remoteUserId);
+      this.closePeerConnection(remoteUserId);
+    }
+
+    // Bring a newcomer up to date with our mute/camera/screen state
+    if (!knownSession || knownSession !== sessionId) {
+      this.sendControl('media-state', { ...this.mediaState }, remoteUserId).catch(error => {
+        console.error('Error sending media state to', remoteUserId, error);
       });
+    }
+
+    if (this.shouldOffer(remoteUserId) && !this.peerConnections.has(remoteUserId)) {
+      this.sendOffer(remoteUserId).catch(error => {
+        console.error('Error sending offer to', remoteUserId, error);
+      });
+    }
+  }
+
+  private envelope(toUserId: string | null): SignalingEnvelope {
+    if (!this.callId) {
+      throw new Error('Cannot send signaling messages outside of a call');
+    }
+
+    return {
+      callId: this.callId,
+      fromUserId: this.userId,
+      toUserId,
+      fromSessionId: this.sessionId,
+      toSessionId: toUserId ? this.peerSessions.get(toUserId) ?? null : null,
+      timestamp: Date.now(),
+    };
+  }
+
+  async sendControl(
+    action: SignalingControlAction,
+    payload: Record<string, unknown> | null = null,
+    toUserId: string | null = null
+  ): Promise<void> {
+    await this.signaling.send({
+      ...this.envelope(toUserId),
+      type: 'control',
+      action,
+      payload,
     });
+  }
+
+  async sendReaction(emoji: string): Promise<void> {
+    await this.sendControl('reaction', { emoji });
+  }
 
-    this.unsubscribes.push(unsubscribe);
+  // Raises or lowers a hand - our own, or (as host) someone else's. The owner's
+  // session ID goes along, so a late joiner replaying history skips hands from
+  // sessions that have since ended.
+  async setHandRaised(raised: boolean, userId: string = this.userId): Promise<void> {
+    const sessionId = userId === this.userId ? this.sessionId : this.peerSessions.get(userId);
+    await this.sendControl('hand', { userId, raised, sessionId });
   }
 
+  onRemoteStream(handler: RemoteStreamHandler): () => void {
+    this.remoteStreamHandlers.add(handler);
+    return () => this.remoteStreamHandlers.delete(handler);
+  }
+
+  onPeerClosed(handler: PeerClosedHandler): () => void {
+    this.peerClosedHandlers.add(handler);
+    return () => this.peerClosedHandlers.delete(handler);
+  }
+
+  onPeerStatusChange(handler: PeerStatusHandler): () => void {
+    this.peerStatusHandlers.add(handler);
+    return () => this.peerStatusHandlers.delete(handler);
+  }
+
+  onControlMessage(handler: ControlHandler): () => void {
+    this.controlHandlers.add(handler);
+    return () => this.controlHandlers.delete(handler);
+  }
+
+  // Joins the call's mesh: every other participant that joins (before or after
+  // us) gets its own peer connection
+  async joinCall(callId: string): Promise<void> {
+    // Peer connections are only created from signaling, so loading here covers all of them
+    this.iceConfiguration = await getIceConfiguration();
+    this.sessionId = Math.random().toString(36).slice(2);
+    this.setCallId(callId);
+    this.stats.start();
+    await this.sendControl('join', { sessionId: this.sessionId });
+  }
+
+  // Joins the call's signaling channel; offers addressed to us are answered automatically
   setCallId(callId: string): void {
+    if (this.callId === callId) return;
+
     this.callId = callId;
+    this.unsubscribes.push(
+      this.signaling.subscribe(callId, (message) => this.handleSignal(message))
+    );
   }
 
   getLocalStream(): MediaStream | null {
@@ -311,20 +778,199 @@ export class WebRTCService {
     return Array.from(this.peerConnections.values());
   }
 
-  toggleAudio(enabled: boolean): void {
+  // Mute and camera changes are published to the call, so others can show
+  // why our audio or video stopped instead of a silent or black tile
+  toggleAudio(enabled: boolean): Promise<void> {
     if (this.localStream) {
       this.localStream.getAudioTracks().forEach(track => {
         track.enabled = enabled;
       });
     }
+    return this.updateMediaState({ isMuted: !enabled });
   }
 
-  toggleVideo(enabled: boolean): void {
+  toggleVideo(enabled: boolean): Promise<void> {
     if (this.localStream) {
       this.localStream.getVideoTracks().forEach(track => {
         track.enabled = enabled;
       });
     }
+    return this.updateMediaState({ isVideoOff: !enabled });
+  }
+
+  private getSender(peerConnection: RTCPeerConnection, kind: 'audio' | 'video'): RTCRtpSender | undefined {
+    return peerConnection
+      .getTransceivers()
+      .find(transceiver => transceiver.receiver.track.kind === kind)?.sender;
+  }
+
+  private getVideoSenders(): Map<string, RTCRtpSender> {
+    const senders = new Map<string, RTCRtpSender>();
+    this.peerConnections.forEach(({ userId, connection }) => {
+      const sender = this.getSender(connection, 'video');
+      if (sender && connection.connectionState !== 'closed') {
+        senders.set(userId, sender);
+      }
+    });
+    return senders;
+  }
+
+  // Swaps the outgoing track of one kind on every peer without renegotiating
+  private async replaceTrack(kind: 'audio' | 'video', track: MediaStreamTrack | null): Promise<void> {
+    await Promise.all(
+      Array.from(this.peerConnections.values()).map(async ({ userId, connection }) => {
+        const sender = this.getSender(connection, kind);
+        if (!sender) {
+          console.warn(`No ${kind} sender to replace for`, userId);
+          return;
+        }
+        try {
+          await sender.replaceTrack(track);
+        } catch (error) {
+          console.error(`Error replacing ${kind} track for`, userId, error);
+        }
+      })
+    );
+  }
+
+  /**
+   * Moves the microphone or camera to another device mid-call. Returns a new
+   * local stream (same tracks, one swapped) so UI bound to the old one
+   * re-renders, or null if this call has no track of that kind.
+   */
+  async switchInputDevice(
+    kind: 'audioinput' | 'videoinput',
+    deviceId: string | null
+  ): Promise<MediaStream | null> {
+    if (!this.localStream) return null;
+
+    const trackKind = kind === 'audioinput' ? 'audio' : 'video';
+    const oldTrack = this.localStream.getTracks().find(track => track.kind === trackKind);
+    if (!oldTrack) return null;
+
+    const trackConstraints: MediaTrackConstraints = {
+      ...(trackKind === 'audio' ? AUDIO_CONSTRAINTS : VIDEO_CONSTRAINTS),
+      ...(deviceId && { deviceId: { exact: deviceId } }),
+    };
+
+    const stream = await navigator.mediaDevices.getUserMedia({ [trackKind]: trackConstraints });
+    const newTrack = stream.getTracks()[0];
+    newTrack.enabled = oldTrack.enabled; // keep mute / camera-off state
+
+    // While presenting, peers are receiving the screen rather than the camera
+    if (!(trackKind === 'video' && this.screenStream)) {
+      await this.replaceTrack(trackKind, newTrack);
+    }
+
+    oldTrack.stop();
+    this.localStream = new MediaStream(
+      this.localStream.getTracks().filter(track => track !== oldTrack).concat(newTrack)
+    );
+
+    return this.localStream;
+  }
+
+  async startScreenShare(): Promise<MediaStream> {
+    if (this.screenStream) return this.screenStream;
+
+    if (!navigator.mediaDevices || !navigator.mediaDevices.getDisplayMedia) {
+      throw new Error('Your browser does not support screen sharing.');
+    }
+
+    let screenStream: MediaStream;
+    try {
+      screenStream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+    } catch (error: any) {
+      if (error.name === 'NotAllowedError') {
+        throw new Error('Screen sharing was cancelled or blocked.');
+      }
+      throw error;
+    }
+
+    const screenTrack = screenStream.getVideoTracks()[0];
+    this.screenStream = screenStream;
+
+    // The browser's own "Stop sharing" bar ends the track without going through our UI
+    screenTrack.onended = () => {
+      this.stopScreenShare();
+    };
+
+    await this.replaceTrack('video', screenTrack);
+    await this.updateMediaState({ isScreenSharing: true });
+    this.screenShareHandlers.forEach(handler => handler(screenStream));
+
+    return screenStream;
+  }
+
+  async stopScreenShare(): Promise<void> {
+    if (!this.screenStream) return;
+
+    this.screenStream.getTracks().forEach(track => {
+      track.onended = null;
+      track.stop();
+    });
+    this.screenStream = null;
+
+    // Back to the camera (or nothing, for a camera-less stream)
+    await this.replaceTrack('video', this.localStream?.getVideoTracks()[0] || null);
+    await this.updateMediaState({ isScreenSharing: false });
+    this.screenShareHandlers.forEach(handler => handler(null));
+  }
+
+  getScreenStream(): MediaStream | null {
+    return this.screenStream;
+  }
+
+  private async updateMediaState(changes: Partial<ParticipantMediaState>): Promise<void> {
+    this.mediaState = { ...this.mediaState, ...changes };
+    if (!this.callId) return;
+
+    try {
+      await this.sendControl('media-state', { ...this.mediaState });
+    } catch (error) {
+      console.error('Error publishing media state:', error);
+    }
+  }
+
+  onScreenShareChange(handler: ScreenShareHandler): () => void {
+    this.screenShareHandlers.add(handler);
+    return () => this.screenShareHandlers.delete(handler);
+  }
+
+  // Fires every few seconds while in a call with fresh stats for each peer
+  onStats(handler: StatsHandler): () => void {
+    this.statsHandlers.add(handler);
+    return () => this.statsHandlers.delete(handler);
+  }
+
+  getLatestStats(): Map<string, PeerStats> {
+    return new Map(this.latestStats);
+  }
+
+  onChatMessage(handler: ChatHandler): () => void {
+    this.chatHandlers.add(handler);
+    return () => this.chatHandlers.delete(handler);
+  }
+
+  // Fires whenever a transfer starts, progresses, or finishes, in either direction
+  onFileTransfer(handler: FileTransferHandler): () => void {
+    this.fileTransferHandlers.add(handler);
+    return () => this.fileTransferHandlers.delete(handler);
+  }
+
+  // Fires when video to a peer is switched off (or back on) because their link can't carry it
+  onAudioOnlyChange(handler: AudioOnlyHandler): () => void {
+    this.audioOnlyHandlers.add(handler);
+    return () => this.audioOnlyHandlers.delete(handler);
+  }
+
+  // Drops someone the host removed from the call, and keeps them out
+  blockPeer(userId: string): void {
+    if (this.blockedPeers.has(userId)) return;
+    this.blockedPeers.add(userId);
+    this.peerSessions.delete(userId);
+    this.pendingCandidates.delete(userId);
+    this.closePeerConnection(userId);
   }
 
   closePeerConnection(userId: string): void {
@@ -333,7 +979,11 @@ export class WebRTCService {
     if (peerConnectionData) {
       peerConnectionData.connection.close();
       this.peerConnections.delete(userId);
+      this.reconnection.forget(userId);
+      this.bandwidth.forget(userId);
+      this.fileTransfers.failPeer(userId);
       console.log('Closed peer connection for', userId);
+      this.peerClosedHandlers.forEach(handler => handler(userId));
     }
   }
 
@@ -344,16 +994,51 @@ export class WebRTCService {
       this.localStream = null;
     }
 
+    if (this.screenStream) {
+      this.screenStream.getTracks().forEach(track => {
+        track.onended = null;
+        track.stop();
+      });
+      this.screenStream = null;
+    }
+    this.mediaState = INITIAL_MEDIA_STATE;
+
     // Close all peer connections
     this.peerConnections.forEach((peerConnection, userId) => {
       peerConnection.connection.close();
     });
     this.peerConnections.clear();
+    this.reconnection.reset();
+    this.stats.stop();
+    this.latestStats = new Map();
+    this.bandwidth.reset();
+    this.pendingCandidates.clear();
+    this.candidateStats.clear();
+    this.seenMessageIds.clear();
+    this.fileTransfers.reset();
 
     // Unsubscribe from listeners
     this.unsubscribes.forEach(unsubscribe => unsubscribe());
     this.unsubscribes = [];
 
     this.callId = null;
+    this.sessionId = null;
+    this.peerSessions.clear();
+    this.blockedPeers.clear();
+  }
+
+  // Releases the signaling transport; the service cannot be used afterwards
+  dispose(): void {
+    this.cleanup();
+    this.signaling.close();
+    this.remoteStreamHandlers.clear();
+    this.peerClosedHandlers.clear();
+    this.controlHandlers.clear();
+    this.peerStatusHandlers.clear();
+    this.screenShareHandlers.clear();
+    this.statsHandlers.clear();
+    this.audioOnlyHandlers.clear();
+    this.chatHandlers.clear();
+    this.fileTransferHandlers.clear();
   }
-}
\ No newline at end of file
+}
@@ -1,13 +1,34 @@
 import { User as FirebaseUser } from 'firebase/auth';
 import { Timestamp } from 'firebase/firestore';
 
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
 export interface User {
   uid: string;
   email: string;
   displayName: string;
   photoURL: string;
   isOnline: boolean;
-  lastSeen: Timestamp;
+  lastSeen: Timestamp; // refreshed by presence heartbeats; see src/lib/presence.ts
+  status?: Exclude<PresenceStatus, 'offline'>; // 'away' when every open tab is hidden
+  recentsViewedAt?: Timestamp; // missed calls after this show as unread
+  callWaitingEnabled?: boolean; // ring through while in a call instead of answering busy
+}
+
+export type ParticipantCallState =
+  | 'invited'
+  | 'ringing'
+  | 'joined'
+  | 'declined'
+  | 'left'
+  | 'timed-out'
+  | 'busy' // was in another call; answered automatically
+  | 'held'; // answered, then put the call on hold to take another one
+
+export interface ParticipantStateEntry {
+  state: ParticipantCallState;
+  updatedAt: Timestamp;
+  invitedAt?: Timestamp; // while pending: when the invite went out; the ring timeout counts from here
 }
 
 export interface Call {
@@ -15,41 +36,195 @@ export interface Call {
   callerId: string;
   callerName: string;
   callerPhoto: string;
-  receiverId?: string; // For one-to-one calls
+  receiverId?: string | null; // For one-to-one calls; null once it becomes a group call
   participants: string[]; // Array of user IDs
   type: 'voice' | 'video';
   status: 'ringing' | 'active' | 'ended' | 'missed';
+  participantStates: Record<string, ParticipantStateEntry>; // keyed by user ID
   isGroupCall: boolean;
   createdAt: Timestamp;
   startedAt?: Timestamp;
   endedAt?: Timestamp;
+  recordingBy?: Record<string, Timestamp>; // participants recording right now, and since when
+  // Moderation - only the host may change these (enforced by firestore.rules)
+  hostId?: string; // defaults to callerId; the host can hand it to someone else
+  locked?: boolean; // nobody new can be added or join
+  removedParticipants?: string[]; // removed by the host; can't rejoin
+  muteRequests?: Record<string, Timestamp>; // participants the host asked to mute, until their client complies
+  roomId?: string; // set for a meeting room's call: joined by link, not rung
+  missedBy?: string[]; // invitees who declined or never answered, kept in step with participantStates
+}
+
+// A meeting room reachable at /room/{id}; each time someone enters an empty room a new call starts
+export interface Room {
+  id: string;
+  name: string;
+  ownerId: string;
+  ownerName: string;
+  maxParticipants: number;
+  activeCallId: string | null; // the room's current call, while it is live
+  createdAt: Timestamp;
 }
 
-export interface CallSignal {
+// A call booked for later; everyone meets in its room at startAt
+export interface ScheduledCall {
   id: string;
+  title: string;
+  organizerId: string;
+  organizerName: string;
+  participants: string[]; // user IDs, organizer included
+  roomId: string;
+  startAt: Timestamp;
+  endAt: Timestamp;
+  status: 'scheduled' | 'cancelled';
+  sequence: number; // bumped on every reschedule or cancellation, as in iCalendar
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export type SignalingTransport = 'firestore' | 'websocket' | 'memory';
+
+export type SignalingControlAction =
+  | 'join'
+  | 'hangup'
+  | 'restart-ice'
+  | 'media-state'
+  | 'video-paused'
+  | 'reaction'
+  | 'hand';
+
+export interface SignalingEnvelope {
   callId: string;
   fromUserId: string;
-  toUserId: string;
-  type: 'offer' | 'answer' | 'ice-candidate';
-  data: any;
-  timestamp: Timestamp;
+  toUserId: string | null; // null broadcasts to every participant
+  // Sender's and recipient's joinCall sessions, so SDP and candidates left
+  // over from an earlier session are never applied to the current one
+  fromSessionId: string | null;
+  toSessionId: string | null;
+  timestamp: number;
 }
 
+export type SignalingMessage =
+  | (SignalingEnvelope & { type: 'offer'; description: RTCSessionDescriptionInit })
+  | (SignalingEnvelope & { type: 'answer'; description: RTCSessionDescriptionInit })
+  | (SignalingEnvelope & { type: 'ice-candidate'; candidate: RTCIceCandidateInit })
+  | (SignalingEnvelope & {
+      type: 'control';
+      action: SignalingControlAction;
+      payload: unknown; // whatever the sender put there; read it through getPayloadField()
+    });
+
+export type ControlSignal = Extract<SignalingMessage, { type: 'control' }>;
+
 export interface PeerConnection {
   userId: string;
   connection: RTCPeerConnection;
+  dataChannel?: RTCDataChannel;
+  fileChannel?: RTCDataChannel; // separate, so a large file doesn't hold up chat
   stream?: MediaStream;
 }
 
+export interface ChatMessage {
+  id: string; // unique per message, so copies relayed through the mesh can be dropped
+  senderId: string;
+  text: string;
+  timestamp: number;
+}
+
+// Sent as JSON over each peer's RTCDataChannel
+export type DataChannelMessage = { type: 'chat'; message: ChatMessage };
+
+// An emoji floating over someone's tile for a few seconds
+export interface Reaction {
+  id: string;
+  userId: string;
+  emoji: string;
+}
+
+export type FileTransferStatus = 'sending' | 'receiving' | 'verifying' | 'completed' | 'failed' | 'cancelled';
+
+export interface FileTransfer {
+  id: string;
+  peerId: string; // who we're sending to or receiving from
+  direction: 'outgoing' | 'incoming';
+  name: string;
+  size: number;
+  mimeType: string;
+  bytesTransferred: number;
+  status: FileTransferStatus;
+  error?: string; // why it failed
+  blob?: Blob; // the received file, once its checksum matched
+}
+
+export interface IceCandidateStats {
+  queued: number; // arrived before the remote description and were buffered
+  applied: number;
+  rejected: number; // addIceCandidate threw
+}
+
+// What a participant is sending, published to the others over signaling
+export interface ParticipantMediaState {
+  isScreenSharing: boolean;
+  isMuted: boolean;
+  isVideoOff: boolean;
+}
+
+export type DeviceLists = Record<MediaDeviceKind, MediaDeviceInfo[]>;
+
+// Chosen deviceId per kind; null means the browser default
+export type DeviceSelection = Record<MediaDeviceKind, string | null>;
+
+export type PeerStatus = 'connecting' | 'connected' | 'reconnecting';
+
+// How the selected ICE candidate pair reaches the peer; 'relay' means via TURN
+export type IceCandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+// Derived from RTCPeerConnection.getStats(); rates are over the last poll interval
+export interface PeerStats {
+  timestamp: number;
+  inboundBitrate: number; // bits per second, audio + video
+  outboundBitrate: number;
+  packetLoss: number; // fraction (0-1) of inbound packets lost
+  jitter: number | null; // ms
+  roundTripTime: number | null; // ms
+  framesPerSecond: number | null; // inbound video
+  resolution: { width: number; height: number } | null; // inbound video
+  availableOutgoingBitrate: number | null; // bandwidth estimate, bits per second
+  localCandidateType: IceCandidateType | null;
+  remoteCandidateType: IceCandidateType | null;
+  quality: 0 | 1 | 2 | 3 | 4; // signal bars; 0 until there is data
+}
+
 export interface CallState {
   callId: string | null;
+  roomId: string | null; // the meeting room this call belongs to, if any
+  hostId: string | null; // the caller unless they handed it on; only they can moderate or end the call for everyone
+  isLocked: boolean;
+  mutedByHost: boolean; // we're muted because the host asked, until we unmute
   isInCall: boolean;
   isCalling: boolean;
   isReceivingCall: boolean;
   callType: 'voice' | 'video' | null;
   localStream: MediaStream | null;
   remoteStreams: Map<string, MediaStream>;
+  peerStatus: Map<string, PeerStatus>;
   participants: User[];
+  participantStates: Record<string, ParticipantStateEntry>;
   isMuted: boolean;
   isVideoOff: boolean;
+  isScreenSharing: boolean;
+  screenStream: MediaStream | null;
+  remoteMediaState: Map<string, ParticipantMediaState>;
+  peerStats: Map<string, PeerStats>;
+  iceCandidateStats: Map<string, IceCandidateStats>; // refreshed along with peerStats
+  // Peers whose link is too slow for video: we send them audio only / they send us audio only
+  sendingAudioOnly: Set<string>;
+  receivingAudioOnly: Set<string>;
+  activeSpeakerId: string | null; // whoever spoke last, ourselves included
+  recordingBy: string[]; // from the call document, so everyone knows they're being recorded
+  isRecording: boolean; // we are recording
+  chatMessages: ChatMessage[];
+  fileTransfers: Map<string, FileTransfer>;
+  reactions: Reaction[];
+  raisedHands: Map<string, number>; // uid -> when the hand went up, ourselves included
 }